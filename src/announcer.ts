@@ -0,0 +1,142 @@
+import { directionKey, DirectionKey, SimulationEngine } from './simulation';
+
+// Short spoken summaries of what just happened on the road, written into an
+// ARIA live region for screen readers. Events are gathered on every step but
+// spoken at most once per ANNOUNCE_INTERVAL of wall-clock time, so fast
+// playback doesn't bury the listener.
+
+const ANNOUNCE_INTERVAL = 3000; // ms
+const MAX_EVENTS_SPOKEN = 3; // per announcement; the rest are counted
+
+// "middle light" reads better than "Light 2" on the short corridors most
+// people build; longer ones fall back to numbers
+export function lightName(index: number, count: number): string {
+    if (count === 1) return 'the light';
+    if (count <= 3) {
+        if (index === 0) return 'west light';
+        if (index === count - 1) return 'east light';
+        return 'middle light';
+    }
+    return `Light ${index + 1}`;
+}
+
+export class Announcer {
+    enabled: boolean = true;
+
+    private region: HTMLElement;
+    private pending: string[] = [];
+    private lastAnnouncement: number = -Infinity; // ms
+    private lastTime: number = 0; // engine step at the previous call
+    private signalEventsSeen: number = 0;
+    private stopsSeen = new Map<number, number>(); // car id -> stops already announced
+    private runnersSeen = new Set<number>();
+    private spillbacks = new Set<string>(); // "<light>:<direction>" currently spilling back
+
+    constructor(region: HTMLElement) {
+        this.region = region;
+    }
+
+    // Gather events since the last call, then speak if it's been long enough
+    observe(sim: SimulationEngine, now: number): void {
+        // Time only goes backwards when the run was reset
+        if (sim.time < this.lastTime) this.clear();
+        this.lastTime = sim.time;
+        if (!this.enabled) {
+            this.catchUp(sim);
+            return;
+        }
+
+        const count = sim.lights.length;
+        sim.signalLog.slice(this.signalEventsSeen).forEach(event => {
+            if (event.movement === 'mainline' && (event.to === 'red' || event.to === 'green')) {
+                this.pending.push(`${capitalize(lightName(event.lightIndex, count))} turned ${event.to}`);
+            }
+        });
+
+        const stopsSeen = new Map<number, number>();
+        const runnersSeen = new Set<number>();
+        sim.cars.forEach(car => {
+            const direction = directionKey(car.direction);
+            car.stopLog.slice(this.stopsSeen.get(car.id) ?? 0).forEach(stop => {
+                const where = stop.lightIndex === null ? 'in traffic' : `at ${lightName(stop.lightIndex, count)}`;
+                this.pending.push(`${capitalize(direction)} car stopped ${where}`);
+            });
+            stopsSeen.set(car.id, car.stopLog.length);
+
+            if (car.ranRedLight) {
+                if (!this.runnersSeen.has(car.id)) this.pending.push(`${capitalize(direction)} car ran a red light`);
+                runnersSeen.add(car.id);
+            }
+        });
+        this.stopsSeen = stopsSeen;
+        this.runnersSeen = runnersSeen;
+
+        sim.lights.forEach((light, index) => {
+            (['eastbound', 'westbound'] as DirectionKey[]).forEach(direction => {
+                const key = `${index}:${direction}`;
+                if (!light.queues[direction].spillback) {
+                    this.spillbacks.delete(key);
+                } else if (!this.spillbacks.has(key)) {
+                    this.spillbacks.add(key);
+                    this.pending.push(`${capitalize(direction)} queue at ${lightName(index, count)} is backing into the intersection behind it`);
+                }
+            });
+        });
+        this.signalEventsSeen = sim.signalLog.length;
+
+        if (this.pending.length > 0 && now - this.lastAnnouncement >= ANNOUNCE_INTERVAL) {
+            this.speak(now);
+        }
+    }
+
+    // Say something straight away, e.g. in answer to a key press
+    announce(message: string): void {
+        this.region.textContent = message;
+    }
+
+    clear(): void {
+        this.pending = [];
+        this.lastTime = 0;
+        this.signalEventsSeen = 0;
+        this.stopsSeen.clear();
+        this.runnersSeen.clear();
+        this.spillbacks.clear();
+    }
+
+    // Repeats are folded together, e.g. "2 westbound cars stopped at east light"
+    private speak(now: number): void {
+        const counts = new Map<string, number>();
+        this.pending.forEach(event => counts.set(event, (counts.get(event) ?? 0) + 1));
+        const events = [...counts].map(([event, count]) => {
+            if (count === 1) return event;
+            const car = event.match(/^(\w+) car (.*)$/);
+            return car ? `${count} ${car[1].toLowerCase()} cars ${car[2]}` : `${event} (${count} times)`;
+        });
+
+        const spoken = events.slice(0, MAX_EVENTS_SPOKEN);
+        const rest = events.length - spoken.length;
+        if (rest > 0) spoken.push(`Plus ${rest} more`);
+        this.announce(`${spoken.join('. ')}.`);
+        this.pending = [];
+        this.lastAnnouncement = now;
+    }
+
+    // Mark everything so far as heard, so turning announcements back on
+    // doesn't replay what happened while they were off
+    private catchUp(sim: SimulationEngine): void {
+        this.pending = [];
+        this.signalEventsSeen = sim.signalLog.length;
+        this.stopsSeen = new Map(sim.cars.map(car => [car.id, car.stopLog.length]));
+        this.runnersSeen = new Set(sim.cars.filter(car => car.ranRedLight).map(car => car.id));
+        this.spillbacks.clear();
+        sim.lights.forEach((light, index) => {
+            (['eastbound', 'westbound'] as DirectionKey[]).forEach(direction => {
+                if (light.queues[direction].spillback) this.spillbacks.add(`${index}:${direction}`);
+            });
+        });
+    }
+}
+
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,83 @@
+import { DirectionKey, SimulationConfig, SimulationEngine } from './simulation';
+import { Scenario } from './scenario';
+import { captureFrame } from './recording';
+import { drawFrame, RenderOptions } from './renderer';
+import { DirectionStats, summarize } from './stats';
+
+// A second corridor run alongside the main one, with its own canvas. It keeps
+// its own signals and geometry but always takes the main run's demand,
+// drivers and seed, so both see the same vehicles arrive at the same moments.
+// It follows the live engine only; scrubbing and replay leave it alone.
+export class ComparisonPane {
+    readonly sim: SimulationEngine;
+    name: string = 'Comparison';
+
+    private ctx: CanvasRenderingContext2D;
+    private title: HTMLElement;
+    private summaryBody: HTMLElement;
+
+    constructor(canvas: HTMLCanvasElement, title: HTMLElement, summaryBody: HTMLElement) {
+        this.ctx = canvas.getContext('2d')!;
+        this.title = title;
+        this.summaryBody = summaryBody;
+        this.sim = new SimulationEngine({}, canvas.width, canvas.height);
+    }
+
+    // Take a whole configuration, e.g. a clone of the main run or an imported
+    // scenario. Its own demand, drivers and seed give way to the main run's.
+    load(scenario: Scenario, main: SimulationEngine): void {
+        this.name = scenario.name;
+        this.restart(scenario.config, main);
+    }
+
+    // Bring this run level with the main one: start over if the main run was
+    // reset or reseeded, catch up on any steps it has taken, then pick up
+    // changes to its demand or drivers from this moment on
+    follow(main: SimulationEngine): void {
+        if (this.sim.time > main.time || this.sim.seed !== main.seed) {
+            this.restart(this.sim.getConfig(), main);
+        }
+        this.sim.step(main.time - this.sim.time);
+
+        if (JSON.stringify(this.sim.demand) !== JSON.stringify(main.demand)) this.sim.setDemand(main.demand);
+        if (JSON.stringify(this.sim.driverModel) !== JSON.stringify(main.driverModel)) this.sim.setDriverModel(main.driverModel);
+    }
+
+    private restart(config: SimulationConfig, main: SimulationEngine): void {
+        this.sim.applyConfig({ ...config, demand: { ...main.demand }, driverModel: { ...main.driverModel }, seed: main.seed });
+    }
+
+    draw(main: SimulationEngine, mainName: string, options: RenderOptions): void {
+        drawFrame(this.ctx, this.sim, captureFrame(this.sim), options);
+        this.renderSummary(main, mainName);
+    }
+
+    // Stops and delay per direction for both runs, with B's change against A
+    private renderSummary(main: SimulationEngine, mainName: string): void {
+        const difference = (a: number, b: number, digits: number) => {
+            const delta = b - a;
+            return `${delta > 0 ? '+' : ''}${delta.toFixed(digits)}`;
+        };
+        const row = (label: string, a: DirectionStats, b: DirectionStats) => {
+            const first = summarize(a);
+            const second = summarize(b);
+            return `
+                <tr>
+                    <td>${label}</td>
+                    <td>${first.stopsPerCar.toFixed(2)}</td>
+                    <td>${second.stopsPerCar.toFixed(2)}</td>
+                    <td>${difference(first.stopsPerCar, second.stopsPerCar, 2)}</td>
+                    <td>${first.averageDelay.toFixed(1)}s</td>
+                    <td>${second.averageDelay.toFixed(1)}s</td>
+                    <td>${difference(first.averageDelay, second.averageDelay, 1)}s</td>
+                </tr>
+            `;
+        };
+
+        this.title.textContent = `A: ${mainName} vs B: ${this.name}`;
+        const directions: [string, DirectionKey][] = [['Eastbound', 'eastbound'], ['Westbound', 'westbound']];
+        this.summaryBody.innerHTML =
+            directions.map(([label, key]) => row(label, main.stats[key], this.sim.stats[key])).join('') +
+            row('Cross streets', main.crossTraffic.stats, this.sim.crossTraffic.stats);
+    }
+}
@@ -0,0 +1,238 @@
+import { CrossState, crossStateAt, leftTurnStateAt, LightState, lightStateAt, PhasePlan, phaseDurations } from './signals';
+
+// Signal controllers decide, step by step, what each intersection shows.
+// Fixed-time control follows the offset, cycle and phase plan exactly; the
+// others react to traffic using the same plan as their limits.
+
+export type ControllerType = 'fixed' | 'actuated' | 'adaptive';
+
+export const CONTROLLER_TYPES: ControllerType[] = ['fixed', 'actuated', 'adaptive'];
+
+export const CONTROLLER_LABELS: Record<ControllerType, string> = {
+    fixed: 'Fixed-time',
+    actuated: 'Actuated',
+    adaptive: 'Adaptive'
+};
+
+export interface SignalIndications {
+    main: LightState;
+    cross: CrossState;
+    leftTurn: CrossState;
+}
+
+// Timing the controller is given for its light, as set in the light controls
+export interface ControllerSettings {
+    offset: number; // seconds
+    cycleTime: number; // seconds
+    plan: PhasePlan;
+}
+
+// What the detectors at one intersection report on each step
+export interface IntersectionDemand {
+    mainlineDetected: boolean; // a mainline car is over a detector upstream of the stop line
+    crossDetected: boolean; // a side-street car is over its detector
+    leftTurnDetected: boolean; // a car is waiting in a left-turn bay
+    mainlineQueue: number; // stopped mainline cars on both approaches
+    crossQueue: number; // stopped side-street cars on both approaches
+}
+
+export const NO_DEMAND: IntersectionDemand = {
+    mainlineDetected: false,
+    crossDetected: false,
+    leftTurnDetected: false,
+    mainlineQueue: 0,
+    crossQueue: 0
+};
+
+export interface SignalController {
+    readonly type: ControllerType;
+    update(simTime: number, settings: ControllerSettings, demand: IntersectionDemand): SignalIndications;
+}
+
+export const GAP_TIME = 2; // seconds without a detection before a green gaps out
+export const MIN_CROSS_GREEN = 4; // seconds; also the shortest left arrow
+
+// Follows the timing plan regardless of traffic, so offsets line lights up
+// into green waves
+class FixedTimeController implements SignalController {
+    readonly type = 'fixed';
+
+    update(simTime: number, settings: ControllerSettings): SignalIndications {
+        const { offset, cycleTime, plan } = settings;
+        return {
+            main: lightStateAt(simTime, offset, cycleTime, plan),
+            cross: crossStateAt(simTime, offset, cycleTime, plan),
+            leftTurn: leftTurnStateAt(simTime, offset, cycleTime, plan)
+        };
+    }
+}
+
+// Same sequence as fixed-time: mainline, protected left, side street, each
+// followed by its yellow and all-red
+type Phase =
+    | 'main-green' | 'main-yellow' | 'main-clear'
+    | 'left-green' | 'left-yellow' | 'left-clear'
+    | 'cross-green' | 'cross-yellow' | 'cross-clear';
+
+const INDICATIONS: Record<Phase, SignalIndications> = {
+    'main-green': { main: 'green', cross: 'red', leftTurn: 'red' },
+    'main-yellow': { main: 'yellow', cross: 'red', leftTurn: 'red' },
+    'main-clear': { main: 'all-red', cross: 'red', leftTurn: 'red' },
+    'left-green': { main: 'red', cross: 'red', leftTurn: 'green' },
+    'left-yellow': { main: 'red', cross: 'red', leftTurn: 'yellow' },
+    'left-clear': { main: 'red', cross: 'red', leftTurn: 'red' },
+    'cross-green': { main: 'red', cross: 'green', leftTurn: 'red' },
+    'cross-yellow': { main: 'red', cross: 'yellow', leftTurn: 'red' },
+    'cross-clear': { main: 'all-red', cross: 'red', leftTurn: 'red' }
+};
+
+// Runs the phase sequence with a timer, leaving subclasses to decide how
+// long each green lasts and which phases are worth serving
+abstract class PhaseController implements SignalController {
+    abstract readonly type: ControllerType;
+
+    protected phase: Phase = 'main-green';
+    protected elapsed: number = 0; // seconds in the current phase
+    private lastTime: number | null = null;
+
+    update(simTime: number, settings: ControllerSettings, demand: IntersectionDemand): SignalIndications {
+        const dt = this.lastTime === null ? 0 : simTime - this.lastTime;
+        this.lastTime = simTime;
+        this.elapsed += dt;
+        this.observe(demand, dt);
+
+        if (this.phaseOver(settings, demand)) {
+            this.phase = this.nextPhase(settings, demand);
+            this.elapsed = 0;
+            if (this.phase === 'main-green') this.startCycle(settings);
+        }
+        return INDICATIONS[this.phase];
+    }
+
+    private phaseOver(settings: ControllerSettings, demand: IntersectionDemand): boolean {
+        const plan = settings.plan;
+        switch (this.phase) {
+            case 'main-yellow':
+            case 'left-yellow':
+            case 'cross-yellow':
+                return this.elapsed >= plan.yellowTime;
+            case 'main-clear':
+            case 'left-clear':
+            case 'cross-clear':
+                return this.elapsed >= plan.allRedTime;
+            default:
+                return this.greenOver(this.phase, settings, demand);
+        }
+    }
+
+    private nextPhase(settings: ControllerSettings, demand: IntersectionDemand): Phase {
+        switch (this.phase) {
+            case 'main-green': return 'main-yellow';
+            case 'main-yellow': return 'main-clear';
+            case 'left-green': return 'left-yellow';
+            case 'left-yellow': return 'left-clear';
+            case 'cross-green': return 'cross-yellow';
+            case 'cross-yellow': return 'cross-clear';
+            case 'cross-clear': return 'main-green';
+            case 'main-clear':
+                if (settings.plan.protectedLeftTime > 0 && this.serve('left-green', demand)) return 'left-green';
+                return this.serve('cross-green', demand) ? 'cross-green' : 'main-green';
+            case 'left-clear':
+                return this.serve('cross-green', demand) ? 'cross-green' : 'main-green';
+        }
+    }
+
+    // Called on every step before the phase is checked
+    protected observe(_demand: IntersectionDemand, _dt: number): void {}
+
+    // Called whenever the mainline green comes round again
+    protected startCycle(_settings: ControllerSettings): void {}
+
+    protected abstract greenOver(phase: Phase, settings: ControllerSettings, demand: IntersectionDemand): boolean;
+    protected abstract serve(phase: 'left-green' | 'cross-green', demand: IntersectionDemand): boolean;
+}
+
+// Vehicle-actuated control. The mainline rests in green and only gives way
+// when the side street or a bay has called; each green holds at least its
+// minimum, then ends when detections stop for GAP_TIME (gap-out) or when it
+// reaches the green the fixed-time plan would give it (max-out). Offsets are
+// ignored: every light runs free.
+class ActuatedController extends PhaseController {
+    readonly type = 'actuated';
+
+    private sinceDetection: Record<'main' | 'left' | 'cross', number> = { main: 0, left: 0, cross: 0 };
+
+    protected observe(demand: IntersectionDemand, dt: number): void {
+        this.sinceDetection.main = demand.mainlineDetected ? 0 : this.sinceDetection.main + dt;
+        this.sinceDetection.left = demand.leftTurnDetected ? 0 : this.sinceDetection.left + dt;
+        this.sinceDetection.cross = demand.crossDetected ? 0 : this.sinceDetection.cross + dt;
+    }
+
+    protected greenOver(phase: Phase, settings: ControllerSettings, demand: IntersectionDemand): boolean {
+        const { plan, cycleTime } = settings;
+        const phases = phaseDurations(plan, cycleTime);
+        if (phase === 'main-green') {
+            const conflicting = demand.crossDetected || (plan.protectedLeftTime > 0 && demand.leftTurnDetected);
+            return conflicting && this.elapsed >= plan.minGreen &&
+                (this.sinceDetection.main >= GAP_TIME || this.elapsed >= phases.green);
+        }
+        const key = phase === 'left-green' ? 'left' : 'cross';
+        const maxGreen = Math.max(MIN_CROSS_GREEN, phase === 'left-green' ? phases.leftTurn : phases.crossGreen);
+        return this.elapsed >= MIN_CROSS_GREEN && (this.sinceDetection[key] >= GAP_TIME || this.elapsed >= maxGreen);
+    }
+
+    protected serve(phase: 'left-green' | 'cross-green', demand: IntersectionDemand): boolean {
+        return phase === 'left-green' ? demand.leftTurnDetected : demand.crossDetected;
+    }
+}
+
+// Keeps the cycle length but re-splits the green every cycle in proportion
+// to the queues seen on the mainline and the side street over the last one.
+// Like actuated control it runs free of the offsets.
+class AdaptiveController extends PhaseController {
+    readonly type = 'adaptive';
+
+    private mainGreen: number | null = null; // seconds, null until the first cycle has been measured
+    private queueSeconds = { main: 0, cross: 0 };
+
+    protected observe(demand: IntersectionDemand, dt: number): void {
+        this.queueSeconds.main += demand.mainlineQueue * dt;
+        this.queueSeconds.cross += demand.crossQueue * dt;
+    }
+
+    protected startCycle(settings: ControllerSettings): void {
+        const { plan, cycleTime } = settings;
+        const phases = phaseDurations(plan, cycleTime);
+        const { main, cross } = this.queueSeconds;
+        this.queueSeconds = { main: 0, cross: 0 };
+
+        // Green the plan leaves for mainline and side street together
+        const shared = phases.green + phases.crossGreen;
+        const share = main + cross > 0 ? main / (main + cross) : plan.greenSplit;
+        const upper = Math.max(plan.minGreen, shared - MIN_CROSS_GREEN);
+        this.mainGreen = Math.min(upper, Math.max(plan.minGreen, share * shared));
+    }
+
+    protected greenOver(phase: Phase, settings: ControllerSettings): boolean {
+        const { plan, cycleTime } = settings;
+        const phases = phaseDurations(plan, cycleTime);
+        const mainGreen = this.mainGreen ?? phases.green;
+        switch (phase) {
+            case 'main-green': return this.elapsed >= mainGreen;
+            case 'left-green': return this.elapsed >= phases.leftTurn;
+            default: return this.elapsed >= Math.max(MIN_CROSS_GREEN, phases.green + phases.crossGreen - mainGreen);
+        }
+    }
+
+    protected serve(): boolean {
+        return true;
+    }
+}
+
+export function createController(type: ControllerType): SignalController {
+    switch (type) {
+        case 'actuated': return new ActuatedController();
+        case 'adaptive': return new AdaptiveController();
+        default: return new FixedTimeController();
+    }
+}
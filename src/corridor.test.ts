@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG, SimulationConfig } from './simulation';
+import { applyCorridor, corridorToText, parseCorridor } from './corridor';
+
+// Text rounds to whole feet, so positions come back within a foot or so
+function expectSameGeometry(actual: SimulationConfig, expected: SimulationConfig): void {
+    expect(actual.corridorLength).toBeCloseTo(expected.corridorLength, 0);
+    expect(actual.lightPositions).toHaveLength(expected.lightPositions.length);
+    actual.lightPositions.forEach((position, index) => expect(position).toBeCloseTo(expected.lightPositions[index], 2));
+    expect(actual.speedZones).toHaveLength(expected.speedZones.length);
+    actual.speedZones.forEach((zone, index) => {
+        expect(zone.start).toBeCloseTo(expected.speedZones[index].start, 2);
+        expect(zone.speedLimit).toBe(expected.speedZones[index].speedLimit);
+    });
+}
+
+describe('corridorToText', () => {
+    it('round-trips zones that start at a light and zones between lights', () => {
+        const config: SimulationConfig = {
+            ...DEFAULT_CONFIG,
+            corridorLength: 10000,
+            lightPositions: [10, 40, 80],
+            speedZones: [
+                { start: 5, speedLimit: 25 },
+                { start: 40, speedLimit: 35 },
+                { start: 62.5, speedLimit: 45 },
+                { start: 90, speedLimit: 30 }
+            ]
+        };
+
+        const text = corridorToText(config);
+        expect(text.split('\n')).toEqual([
+            'zone 500 ft, 25 mph',
+            '500 ft',
+            '3000 ft, 35 mph',
+            'zone 2250 ft, 45 mph',
+            '1750 ft',
+            'zone 1000 ft, 30 mph',
+            'end 1000 ft'
+        ]);
+        expectSameGeometry(applyCorridor(config, parseCorridor(text)), config);
+    });
+
+    it('round-trips the default corridor', () => {
+        const text = corridorToText(DEFAULT_CONFIG);
+        expectSameGeometry(applyCorridor(DEFAULT_CONFIG, parseCorridor(text)), DEFAULT_CONFIG);
+    });
+});
+
+describe('parseCorridor', () => {
+    it('needs a speed limit on a zone line', () => {
+        expect(() => parseCorridor('0\nzone 500 ft\n1000 ft')).toThrow('a zone needs a speed limit');
+    });
+});
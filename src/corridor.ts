@@ -0,0 +1,138 @@
+import { DEFAULT_CROSS_VOLUME, MAX_LIGHTS, SimulationConfig } from './simulation';
+import { DEFAULT_PHASE_PLAN } from './signals';
+
+// Real corridor geometry typed in as text, one intersection per line:
+//
+//     0                    first intersection, at the west end of the road
+//     1200 ft, 35 mph      1200 feet further east; 35 mph from here on
+//     0.5 mi               half a mile further; the limit carries over
+//     zone 600 ft, 45 mph  the limit changes 600 feet on, between intersections
+//     900 ft
+//     end 800 ft           optional: the road runs on 800 feet past the last one
+//
+// Distances are measured from the previous line (feet unless "mi" is given);
+// the first is measured from the west end of the road. A speed limit applies
+// from that point eastwards until the next line that sets one.
+
+// Posted limit from a point along the road (percentage, as for lights) eastwards
+export interface SpeedZone {
+    start: number;
+    speedLimit: number; // mph
+}
+
+export interface Corridor {
+    lengthFeet: number; // whole road, including any run-out before the first or after the last intersection
+    positions: number[]; // percentage along the road for each intersection
+    speedZones: SpeedZone[];
+}
+
+const LINE_PATTERN = /^(end\s+|zone\s+)?([\d.]+)\s*(ft|feet|mi|mile|miles)?\s*(?:,\s*([\d.]+)\s*(?:mph)?)?$/i;
+
+export function parseCorridor(text: string): Corridor {
+    const lines = text
+        .split('\n')
+        .map(line => line.replace(/#.*/, '').trim())
+        .filter(line => line.length > 0);
+
+    const distances: number[] = [];
+    const limits: (number | null)[] = [];
+    const zones: { distance: number; speedLimit: number }[] = []; // set between intersections
+    let total = 0;
+    lines.forEach((line, index) => {
+        const match = LINE_PATTERN.exec(line);
+        if (!match) throw new Error(`Line ${index + 1}: expected "distance [ft|mi][, speed mph]"`);
+
+        const keyword = match[1]?.trim().toLowerCase();
+        const isEnd = keyword === 'end';
+        const isZone = keyword === 'zone';
+        if (isEnd && index !== lines.length - 1) throw new Error(`Line ${index + 1}: "end" can only be the last line`);
+        if (isEnd && match[4] !== undefined) throw new Error(`Line ${index + 1}: the end of the road cannot set a speed limit`);
+        if (isZone && match[4] === undefined) throw new Error(`Line ${index + 1}: a zone needs a speed limit`);
+
+        const value = parseFloat(match[2]);
+        const unit = (match[3] ?? 'ft').toLowerCase();
+        const feet = unit.startsWith('mi') ? value * 5280 : value;
+        if (!Number.isFinite(feet)) throw new Error(`Line ${index + 1}: distance is not a number`);
+        if (index > 0 && feet <= 0 && !isZone) throw new Error(`Line ${index + 1}: intersections must be further east than the previous line`);
+
+        const limit = match[4] === undefined ? null : parseFloat(match[4]);
+        if (limit !== null && !(limit > 0)) throw new Error(`Line ${index + 1}: speed limit must be positive`);
+
+        total += feet;
+        if (isEnd) return;
+        if (isZone) {
+            zones.push({ distance: total, speedLimit: limit! });
+            return;
+        }
+        distances.push(total);
+        limits.push(limit);
+    });
+
+    if (distances.length < 2) {
+        throw new Error('A corridor needs at least two intersections');
+    }
+    if (distances.length > MAX_LIGHTS) {
+        throw new Error(`A corridor can have at most ${MAX_LIGHTS} intersections`);
+    }
+
+    return {
+        lengthFeet: total,
+        positions: distances.map(distance => (distance / total) * 100),
+        speedZones: [
+            ...limits.flatMap((limit, index) => limit === null ? [] : [{ distance: distances[index], speedLimit: limit }]),
+            ...zones
+        ]
+            .sort((a, b) => a.distance - b.distance)
+            .map(zone => ({ start: (zone.distance / total) * 100, speedLimit: zone.speedLimit }))
+    };
+}
+
+// Current geometry as corridor text, so it can be edited rather than retyped.
+// Road before the first light and after the last is kept, so applying the
+// text unchanged leaves every light where it was. Zones that start at a light
+// go on its line; the rest get zone lines of their own.
+export function corridorToText(config: SimulationConfig): string {
+    const atLight = (zone: SpeedZone) => config.lightPositions.some(position => Math.abs(zone.start - position) < 0.01);
+    const points = [
+        ...config.lightPositions.map(position => ({
+            position,
+            zone: config.speedZones.find(zone => Math.abs(zone.start - position) < 0.01) ?? null,
+            isZone: false
+        })),
+        ...config.speedZones.filter(zone => !atLight(zone)).map(zone => ({ position: zone.start, zone, isZone: true }))
+    ].sort((a, b) => a.position - b.position);
+
+    // Round each point's distance from the west end, not each spacing, so
+    // the rounding doesn't build up along the road
+    let previous = 0;
+    const lines = points.map(point => {
+        const feet = Math.round((point.position / 100) * config.corridorLength);
+        const spacing = feet - previous;
+        previous = feet;
+        const line = `${point.isZone ? 'zone ' : ''}${spacing} ft`;
+        return point.zone ? `${line}, ${point.zone.speedLimit} mph` : line;
+    });
+    const runOut = Math.round(config.corridorLength) - previous;
+    if (runOut > 0) lines.push(`end ${runOut} ft`);
+    return lines.join('\n');
+}
+
+// Lay the corridor over a configuration. Lights keep their signal settings
+// by index; any new ones start from the defaults.
+export function applyCorridor(config: SimulationConfig, corridor: Corridor): SimulationConfig {
+    const count = corridor.positions.length;
+    const keep = <T>(values: T[], fallback: T) =>
+        Array.from({ length: count }, (_, index) => index < values.length ? values[index] : fallback);
+
+    return {
+        ...config,
+        corridorLength: corridor.lengthFeet,
+        lightPositions: [...corridor.positions],
+        lightOffsets: keep(config.lightOffsets, 0),
+        lightCycleTimes: keep(config.lightCycleTimes, 30),
+        phasePlans: keep(config.phasePlans, DEFAULT_PHASE_PLAN).map(plan => ({ ...plan })),
+        crossVolumes: keep(config.crossVolumes, DEFAULT_CROSS_VOLUME),
+        controllerTypes: keep(config.controllerTypes, 'fixed'),
+        speedZones: corridor.speedZones.map(zone => ({ ...zone }))
+    };
+}
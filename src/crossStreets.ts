@@ -0,0 +1,227 @@
+import { SimulationEngine, TrafficLight } from './simulation';
+import { idmAcceleration } from './driverModel';
+import { nextArrival } from './demand';
+import { createDirectionStats, DirectionStats, recordDirectionTrip } from './stats';
+
+// A vehicle on a side street. Side streets run north-south through each
+// light; cars travel along y and leave the model once past the main road.
+export interface CrossCar {
+    id: number;
+    light: TrafficLight;
+    x: number;
+    y: number;
+    direction: 1 | -1; // 1 for southbound (down the canvas), -1 for northbound
+    speed: number; // pixels per step
+    desiredSpeed: number;
+    arrivalTime: number; // step
+    spawnY: number;
+    stops: number;
+    isStopped: boolean;
+    fuel: number; // millilitres
+}
+
+// A side-street arrival held back because the end of its street is full
+export interface WaitingCrossCar {
+    light: TrafficLight;
+    direction: 1 | -1;
+    arrivalTime: number; // step
+}
+
+const CROSS_SPEED_LIMIT = 30; // mph
+export const CROSS_CAR_LENGTH = 20; // pixels
+
+// Side-street traffic for every light: arrivals, car-following and stopping
+// at the main road, plus delay statistics
+export class CrossStreetTraffic {
+    cars: CrossCar[] = [];
+    waiting: WaitingCrossCar[] = []; // in arrival order, entering as room opens up
+    stats: DirectionStats = createDirectionStats();
+
+    private sim: SimulationEngine;
+    private nextId: number = 1;
+    private upcoming: Map<string, number> = new Map(); // approach key -> arrival step
+
+    constructor(sim: SimulationEngine) {
+        this.sim = sim;
+    }
+
+    reset(): void {
+        this.cars = [];
+        this.waiting = [];
+        this.stats = createDirectionStats();
+        this.nextId = 1;
+        this.upcoming = new Map();
+    }
+
+    // Forget scheduled arrivals so new volumes take effect straight away
+    rescheduleArrivals(): void {
+        this.upcoming = new Map();
+    }
+
+    step(): void {
+        this.sim.lights.forEach((light, index) => {
+            this.processArrivals(light, index, 1);
+            this.processArrivals(light, index, -1);
+        });
+
+        const decisions = this.cars.map(car => this.acceleration(car));
+        this.cars.forEach((car, i) => {
+            const previousSpeed = car.speed;
+            car.speed = Math.max(0, car.speed + decisions[i].acceleration);
+            let nextY = car.y + car.speed * car.direction;
+
+            // Hold the front at the stop line while the side street has red
+            if (decisions[i].mustStop) {
+                const frontLimit = this.stopLineY(car.direction) - car.direction * CROSS_CAR_LENGTH / 2;
+                if ((nextY - frontLimit) * car.direction > 0) {
+                    nextY = frontLimit;
+                    car.speed = 0;
+                }
+            }
+
+            const leader = this.findLeader(car);
+            if (leader) {
+                const rearLimit = leader.y - car.direction * CROSS_CAR_LENGTH * 1.2;
+                if ((nextY - rearLimit) * car.direction > 0) {
+                    nextY = rearLimit;
+                    car.speed = Math.min(car.speed, leader.speed);
+                }
+            }
+
+            car.y = nextY;
+            car.fuel += this.sim.fuelForStep(previousSpeed, car.speed);
+            car.x = this.laneX(car.light, car.direction); // follow the light if it is dragged
+
+            const stoppedSpeed = this.sim.MPH_TO_PIXELS_PER_STEP(2);
+            if (!car.isStopped && car.speed < stoppedSpeed) {
+                car.stops += 1;
+                car.isStopped = true;
+            } else if (car.isStopped && car.speed > stoppedSpeed * 2) {
+                car.isStopped = false;
+            }
+        });
+
+        // Cars leave once they are past the far edge of the canvas
+        this.cars = this.cars.filter(car => {
+            const onRoad = car.direction === 1 ? car.y <= this.sim.height + 30 : car.y >= -30;
+            if (!onRoad) {
+                const freeFlowSteps = Math.abs(car.y - car.spawnY) / car.desiredSpeed;
+                recordDirectionTrip(this.stats, {
+                    hitRedLight: car.stops > 0,
+                    ranRedLight: false,
+                    stops: car.stops,
+                    travelTime: (this.sim.time - car.arrivalTime) / this.sim.STEPS_PER_SECOND,
+                    freeFlowTime: freeFlowSteps / this.sim.STEPS_PER_SECOND,
+                    fuel: car.fuel
+                });
+            }
+            return onRoad;
+        });
+
+        // Lights may have been removed while their side-street cars were still driving
+        this.cars = this.cars.filter(car => this.sim.lights.includes(car.light));
+        this.waiting = this.waiting.filter(vehicle => this.sim.lights.includes(vehicle.light));
+    }
+
+    // Queue up an arrival if one is due, then let the first waiting car on
+    // this approach in if the end of the street has room
+    private processArrivals(light: TrafficLight, index: number, direction: 1 | -1): void {
+        const key = `${index}:${direction}`;
+        const volume = this.sim.crossVolumes[index] ?? 0;
+
+        if (!this.upcoming.has(key)) {
+            const event = nextArrival({ ...this.sim.demand, pattern: 'poisson' }, volume, () => this.sim.nextRandom());
+            this.upcoming.set(key, event ? this.sim.time + event.gap * this.sim.STEPS_PER_SECOND : Infinity);
+        }
+        if (this.sim.time >= this.upcoming.get(key)!) {
+            this.upcoming.delete(key);
+            this.waiting.push({ light, direction, arrivalTime: this.sim.time });
+        }
+
+        const next = this.waiting.findIndex(vehicle => vehicle.light === light && vehicle.direction === direction);
+        if (next === -1) return;
+        const spawnY = direction === 1 ? -20 : this.sim.height + 20;
+        const entryBlocked = this.cars.some(car =>
+            car.light === light && car.direction === direction && Math.abs(car.y - spawnY) < CROSS_CAR_LENGTH * 1.2
+        );
+        if (entryBlocked) return;
+        const [vehicle] = this.waiting.splice(next, 1);
+
+        // Time spent waiting to get onto the street counts as delay
+        const desiredSpeed = this.sim.MPH_TO_PIXELS_PER_STEP(CROSS_SPEED_LIMIT);
+        this.cars.push({
+            id: this.nextId++,
+            light,
+            x: this.laneX(light, direction),
+            y: spawnY,
+            direction,
+            speed: desiredSpeed,
+            desiredSpeed,
+            arrivalTime: vehicle.arrivalTime,
+            spawnY,
+            stops: 0,
+            isStopped: false,
+            fuel: 0
+        });
+    }
+
+    // Southbound drives on the west side of the side street, northbound on the east
+    private laneX(light: TrafficLight, direction: 1 | -1): number {
+        return light.x - direction * 10;
+    }
+
+    // Stop lines sit just outside the main road on each side
+    stopLineY(direction: 1 | -1): number {
+        return this.sim.height / 2 - direction * (this.sim.roadHalfWidth + 5);
+    }
+
+    private findLeader(car: CrossCar): CrossCar | null {
+        let leader: CrossCar | null = null;
+        for (const other of this.cars) {
+            if (other === car || other.light !== car.light || other.direction !== car.direction) continue;
+            const ahead = (other.y - car.y) * car.direction;
+            if (ahead > 0 && (!leader || ahead < (leader.y - car.y) * car.direction)) {
+                leader = other;
+            }
+        }
+        return leader;
+    }
+
+    private acceleration(car: CrossCar): { acceleration: number; mustStop: boolean } {
+        const model = this.sim.driverModel;
+        const params = {
+            desiredSpeed: car.desiredSpeed,
+            maxAcceleration: this.sim.MPH_TO_PIXELS_PER_STEP(model.acceleration) / this.sim.STEPS_PER_SECOND,
+            comfortableDeceleration: this.sim.MPH_TO_PIXELS_PER_STEP(model.deceleration) / this.sim.STEPS_PER_SECOND,
+            headway: model.headway * this.sim.STEPS_PER_SECOND,
+            minGap: CROSS_CAR_LENGTH * 0.2
+        };
+
+        let gap = Infinity;
+        let approachRate = 0;
+        const leader = this.findLeader(car);
+        if (leader) {
+            gap = Math.abs(leader.y - car.y) - CROSS_CAR_LENGTH;
+            approachRate = car.speed - leader.speed;
+        }
+
+        // Side streets stop on red, and on yellow or behind a mainline queue
+        // blocking the intersection whenever they comfortably can
+        const front = car.y + car.direction * CROSS_CAR_LENGTH / 2;
+        const lineGap = (this.stopLineY(car.direction) - front) * car.direction;
+        const light = car.light;
+        let mustStop = false;
+        if (lineGap >= 0) {
+            const comfortableStop = (car.speed * car.speed) / (2 * params.comfortableDeceleration);
+            mustStop = light.crossState === 'red' ||
+                (light.crossState === 'yellow' && lineGap > comfortableStop) ||
+                (light.boxBlocked && lineGap >= comfortableStop);
+        }
+        if (mustStop && lineGap < gap) {
+            gap = lineGap;
+            approachRate = car.speed;
+        }
+
+        return { acceleration: idmAcceleration(params, car.speed, gap, approachRate), mustStop };
+    }
+}
@@ -0,0 +1,43 @@
+// Traffic demand: how many vehicles arrive at each end of the corridor and
+// how their arrivals are spread out in time. Volumes are vehicles per hour of
+// simulation time.
+
+export type ArrivalPattern = 'uniform' | 'poisson' | 'platooned';
+
+export interface Demand {
+    eastboundVolume: number; // vehicles per hour
+    westboundVolume: number; // vehicles per hour
+    pattern: ArrivalPattern;
+    platoonSize: number; // vehicles per platoon for the platooned pattern
+    leftTurnShare: number; // chance a vehicle turns left at each light with a left-turn bay
+}
+
+// 1200 vph matches one car every 3 seconds in each direction
+export const DEFAULT_DEMAND: Demand = {
+    eastboundVolume: 1200,
+    westboundVolume: 1200,
+    pattern: 'uniform',
+    platoonSize: 4,
+    leftTurnShare: 0.15
+};
+
+export interface ArrivalEvent {
+    gap: number; // simulation seconds until the arrival
+    count: number; // vehicles arriving together
+}
+
+// Time to the next arrival for one direction, or null when there is no demand
+export function nextArrival(demand: Demand, volume: number, random: () => number): ArrivalEvent | null {
+    if (volume <= 0) return null;
+    const meanHeadway = 3600 / volume;
+
+    switch (demand.pattern) {
+        case 'uniform':
+            return { gap: meanHeadway, count: 1 };
+        case 'poisson':
+            // Exponential headways give Poisson-distributed counts
+            return { gap: -Math.log(1 - random()) * meanHeadway, count: 1 };
+        case 'platooned':
+            return { gap: meanHeadway * demand.platoonSize, count: demand.platoonSize };
+    }
+}
@@ -0,0 +1,112 @@
+// Driver behaviour: desired-speed spread, Intelligent Driver Model (IDM)
+// car-following and stop/go decisions at yellow lights. Speeds and rates are in mph and simulation seconds;
+// the engine converts them to pixels per step.
+
+export type SpeedDistribution = 'none' | 'uniform' | 'normal';
+
+// How a driver reacts to a yellow light
+export interface YellowProfile {
+    reactionTime: number; // perception-reaction time, simulation seconds
+    maxStopDeceleration: number; // hardest braking accepted for a yellow, mph per simulation second
+    goIfReachable: boolean; // push on whenever the line can be reached before the yellow ends
+    redGrace: number; // simulation seconds after the yellow ends the driver still counts as "making it"
+}
+
+export const CAUTIOUS_PROFILE: YellowProfile = {
+    reactionTime: 0.05,
+    maxStopDeceleration: 135,
+    goIfReachable: false,
+    redGrace: 0
+};
+
+export const AGGRESSIVE_PROFILE: YellowProfile = {
+    reactionTime: 0.1,
+    maxStopDeceleration: 45,
+    goIfReachable: true,
+    redGrace: 1.5
+};
+
+export interface DriverModel {
+    speedVariation: number; // fraction of the limit, e.g. 0.1 for "limit ±10%"
+    distribution: SpeedDistribution;
+    acceleration: number; // mph gained per simulation second
+    deceleration: number; // comfortable braking, mph shed per simulation second
+    headway: number; // desired time gap to the car ahead, simulation seconds
+    aggressiveShare: number; // fraction of drivers using the aggressive yellow profile
+    cautious: YellowProfile;
+    aggressive: YellowProfile;
+}
+
+export const DEFAULT_DRIVER_MODEL: DriverModel = {
+    speedVariation: 0.1,
+    distribution: 'uniform',
+    acceleration: 60,
+    deceleration: 90,
+    headway: 0.1,
+    aggressiveShare: 0.3,
+    cautious: CAUTIOUS_PROFILE,
+    aggressive: AGGRESSIVE_PROFILE
+};
+
+// Multiplier applied to the speed limit to get one driver's desired speed
+export function sampleSpeedFactor(model: DriverModel, random: () => number): number {
+    switch (model.distribution) {
+        case 'none':
+            return 1;
+        case 'uniform':
+            return 1 + (random() * 2 - 1) * model.speedVariation;
+        case 'normal': {
+            // Box-Muller; 95% of drivers fall within the variation band
+            const u = Math.max(random(), Number.EPSILON);
+            const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+            const factor = 1 + z * (model.speedVariation / 2);
+            return Math.min(1 + model.speedVariation * 1.5, Math.max(1 - model.speedVariation * 1.5, factor));
+        }
+    }
+}
+
+export interface IdmParams {
+    desiredSpeed: number;
+    maxAcceleration: number;
+    comfortableDeceleration: number;
+    headway: number; // in the same time unit as the speeds
+    minGap: number;
+}
+
+// IDM acceleration for a car at `speed`, `gap` behind an obstacle closing at
+// `approachRate` (own speed minus leader speed). Pass Infinity for a free road.
+export function idmAcceleration(params: IdmParams, speed: number, gap: number, approachRate: number): number {
+    const freeRoad = 1 - Math.pow(speed / params.desiredSpeed, 4);
+    if (!Number.isFinite(gap)) {
+        return params.maxAcceleration * freeRoad;
+    }
+
+    const desiredGap = params.minGap + Math.max(
+        0,
+        speed * params.headway + (speed * approachRate) / (2 * Math.sqrt(params.maxAcceleration * params.comfortableDeceleration))
+    );
+    const interaction = Math.pow(desiredGap / Math.max(gap, 0.01), 2);
+    return params.maxAcceleration * (freeRoad - interaction);
+}
+
+// Stop/go decision at the onset of yellow. All quantities are in pixels and
+// steps. Returns true when the driver continues through.
+export function decideToGo(
+    reactionSteps: number,
+    maxStopDeceleration: number,
+    goIfReachable: boolean,
+    graceSteps: number,
+    distanceToLine: number,
+    speed: number,
+    yellowStepsLeft: number
+): boolean {
+    if (speed <= 0) return false;
+    if (goIfReachable && distanceToLine / speed <= yellowStepsLeft + graceSteps) return true;
+
+    // Distance covered before the brakes go on
+    const brakingDistance = distanceToLine - speed * reactionSteps;
+    if (brakingDistance <= 0) return true;
+
+    const requiredDeceleration = (speed * speed) / (2 * brakingDistance);
+    return requiredDeceleration > maxStopDeceleration;
+}
@@ -0,0 +1,26 @@
+// Fuel and CO2 estimates from a vehicle's speed and acceleration, using the
+// power-based instantaneous model of Akçelik and Besley (2003) for a typical
+// petrol car on level road. Everything here is in real units; the engine
+// converts its own time scale before asking.
+
+const IDLE_RATE = 0.444; // mL/s burned whatever the car is doing
+const ROLLING_RESISTANCE = 0.333; // kN
+const AERODYNAMIC_DRAG = 0.00108; // kN per (m/s)^2
+const MASS = 1400; // kg
+const FUEL_PER_ENERGY = 0.09; // mL per kJ of tractive work
+const FUEL_PER_ACCELERATION_ENERGY = 0.03; // mL per (kJ m/s^2), extra cost of hard acceleration
+
+export const CO2_GRAMS_PER_ML = 2.31; // petrol
+
+// Fuel use in mL/s at a speed (m/s) and acceleration (m/s^2). Coasting and
+// braking cost only the idle rate.
+export function fuelRate(speed: number, acceleration: number): number {
+    const tractiveForce = ROLLING_RESISTANCE + AERODYNAMIC_DRAG * speed * speed + (MASS * acceleration) / 1000;
+    if (tractiveForce <= 0) return IDLE_RATE;
+
+    const power = tractiveForce * speed; // kW
+    const accelerationCost = acceleration > 0
+        ? (FUEL_PER_ACCELERATION_ENERGY * MASS * acceleration * acceleration * speed) / 1000
+        : 0;
+    return IDLE_RATE + FUEL_PER_ENERGY * power + accelerationCost;
+}
@@ -0,0 +1,82 @@
+import { LightState } from './signals';
+import { Scenario } from './scenario';
+import { CO2_GRAMS_PER_ML } from './emissions';
+
+// Per-vehicle trip logs and per-signal event logs for offline analysis.
+// All times are simulation seconds since the run was reset.
+
+export interface StopRecord {
+    lightIndex: number | null; // light the car was queued for, null if none was ahead
+    time: number;
+    duration: number;
+}
+
+export interface TripLogEntry {
+    carId: number;
+    direction: 'eastbound' | 'westbound';
+    arrivalTime: number; // reached the end of the corridor
+    entryTime: number; // got onto the road (later if the entry was blocked)
+    exitTime: number;
+    exit: 'completed' | 'turned-left';
+    stops: StopRecord[];
+    hitRedLight: boolean;
+    ranRedLight: boolean;
+    fuel: number; // millilitres
+}
+
+// Which signal head at an intersection changed
+export type SignalMovement = 'mainline' | 'cross-street' | 'left-turn';
+
+export interface SignalEvent {
+    time: number;
+    lightIndex: number;
+    movement: SignalMovement;
+    from: LightState;
+    to: LightState;
+}
+
+// Quote a CSV field only when it needs it
+function csvField(value: string | number | boolean | null): string {
+    const text = value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: (string | number | boolean | null)[][]): string {
+    return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+// Light indexes are 1-based in exports to match the "Light N" labels in the UI
+export function tripLogToCsv(trips: TripLogEntry[]): string {
+    return toCsv(
+        ['car_id', 'direction', 'arrival_time', 'entry_time', 'exit_time', 'exit', 'hit_red_light', 'ran_red_light', 'stop_count', 'stopped_time', 'fuel_ml', 'co2_g', 'stops'],
+        trips.map(trip => [
+            trip.carId,
+            trip.direction,
+            trip.arrivalTime.toFixed(2),
+            trip.entryTime.toFixed(2),
+            trip.exitTime.toFixed(2),
+            trip.exit,
+            trip.hitRedLight,
+            trip.ranRedLight,
+            trip.stops.length,
+            trip.stops.reduce((total, stop) => total + stop.duration, 0).toFixed(2),
+            trip.fuel.toFixed(1),
+            (trip.fuel * CO2_GRAMS_PER_ML).toFixed(1),
+            trip.stops
+                .map(stop => `${stop.lightIndex === null ? '-' : `L${stop.lightIndex + 1}`}@${stop.time.toFixed(1)}s for ${stop.duration.toFixed(1)}s`)
+                .join('; ')
+        ])
+    );
+}
+
+export function signalLogToCsv(events: SignalEvent[]): string {
+    return toCsv(
+        ['time', 'light', 'movement', 'from', 'to'],
+        events.map(event => [event.time.toFixed(2), event.lightIndex + 1, event.movement, event.from, event.to])
+    );
+}
+
+// Everything in one file, with the settings that produced it
+export function logsToJson(scenario: Scenario, trips: TripLogEntry[], signalEvents: SignalEvent[]): string {
+    return JSON.stringify({ scenario, trips, signalEvents }, null, 2);
+}
@@ -1,61 +1,67 @@
-interface TrafficLight {
-    x: number;
-    currentState: 'red' | 'yellow' | 'green';
-    timeInState: number;
-    cycleTime: number;
-}
-
-interface Car {
-    x: number;
-    y: number;
-    speed: number; // pixels per frame
-    direction: 1 | -1; // 1 for eastbound, -1 for westbound
-    color: string;
-    hitRedLight: boolean;
-}
-
+import { DirectionKey, SimulationEngine, MIN_LIGHTS, MAX_LIGHTS } from './simulation';
+import { PhasePlan, phaseDurations, validatePhasePlan } from './signals';
+import { DriverModel, SpeedDistribution } from './driverModel';
+import { ArrivalPattern, Demand } from './demand';
+import { optimizeOffsets, OptimizeTarget } from './optimizer';
+import { createScenario, Scenario, scenarioFromHash, scenarioFromJson, scenarioToHash, scenarioToJson } from './scenario';
+import { DirectionStats, summarize } from './stats';
+import { TimeSpaceDiagram } from './timeSpaceDiagram';
+import { applyCorridor, corridorToText, parseCorridor } from './corridor';
+import { logsToJson, signalLogToCsv, tripLogToCsv } from './eventLog';
+import { captureFrame, Recorder, recordingFromJson, recordingToJson, RECORDING_VERSION } from './recording';
+import { drawFrame, drawHighlights, RenderOptions } from './renderer';
+import { ComparisonPane } from './comparison';
+import { CONTROLLER_LABELS, CONTROLLER_TYPES, ControllerType } from './controllers';
+import { GREEN_WAVE_TUTORIAL, TutorialScript, tutorialConfigs, tutorialFromJson } from './tutorial';
+import { Announcer } from './announcer';
+
+// Playback speeds offered by the slider, as multiples of real time
+const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4, 8, 15, 30, 60];
+
+// Canvas view and controls for a SimulationEngine. All model state lives in
+// the engine; this class only renders it and forwards user input.
 class TrafficSimulation {
     private canvas: HTMLCanvasElement;
     private ctx: CanvasRenderingContext2D;
-    private lights: TrafficLight[] = [];
-    private cars: Car[] = [];
+    private sim: SimulationEngine;
     private animationId: number | null = null;
-    private time: number = 0;
     private isRunning: boolean = false;
-
-    // Configuration
-    private speedLimit: number = 60; // mph
-    private middleLightPosition: number = 35; // percentage from left
-    private cycleTime: number = 30; // default cycle time in simulation seconds
-    private lightOffsets: number[] = [0, 6, 12]; // green wave offsets: left=0s, middle=6s, right=12s
-    private lightCycleTimes: number[] = [30, 30, 30]; // individual cycle times for each light in simulation seconds
-    private lastCarSpawnTime: number = 0; // track when last cars were spawned
-    private readonly CAR_SPAWN_INTERVAL = 3 * 60; // 3 seconds in frames (60 FPS)
-    // Make total canvas width represent ~3 miles (15,840 feet)
-    // Canvas is 1000px, minus 300px margins = 700px for road
-    // 700px should represent ~3 miles = 15,840 feet
-    private readonly PIXELS_PER_FOOT = 700 / 15840; // ~0.044 pixels per foot
-    private readonly FPS = 60;
-    private readonly ROAD_MARGIN = 150; // pixels from edge to first/last light
-
-    // Time scale: 1 real second = 15 simulated seconds
-    // Change this value to adjust overall simulation speed
-    private readonly TIME_SCALE = 15; // simulation runs 15x faster than real time
-
-    private readonly MPH_TO_PIXELS_PER_FRAME = (mph: number) => {
-        // mph -> feet per second -> pixels per second -> pixels per frame (accounting for time scale)
-        const feetPerSecond = (mph * 5280) / 3600;
-        const pixelsPerSecond = feetPerSecond * this.PIXELS_PER_FOOT;
-        const pixelsPerSimSecond = pixelsPerSecond * this.TIME_SCALE;
-        return pixelsPerSimSecond / this.FPS;
-    }
+    private draggedLightIndex: number | null = null;
+    private showStats: boolean = false;
+    private diagram: TimeSpaceDiagram;
+    private showDiagram: boolean = false;
+    private playbackSpeed: number = 1;
+    private lastFrameTime: number | null = null; // ms, from requestAnimationFrame
+    private pendingSteps: number = 0; // fractional steps carried between frames
+    private readonly MAX_STEPS_PER_FRAME = 600; // keeps a long pause or slow frame from stalling the page
+    private readonly SPILLBACK_WARNING_SECONDS = 60; // how long a spillback keeps its warning up
+    private readonly URL_SAVE_DELAY = 300; // ms of quiet before the URL is rewritten
+    private urlSaveTimer: number | null = null;
+    private recorder: Recorder = new Recorder();
+    private replayIndex: number | null = null; // recorded frame on screen; null shows the live engine
+    private replayTime: number = 0; // steps, while a replay is playing
+    private comparison: ComparisonPane;
+    private showComparison: boolean = false;
+    private tutorial: { script: TutorialScript; step: number } | null = null;
+    private tutorialStopAt: number | null = null; // step at which the current tutorial step pauses
+    private scenarioBeforeTutorial: Scenario | null = null;
+    private renderOptions: RenderOptions = { colorBlindSafe: false };
+    private announcer: Announcer;
 
     constructor() {
         this.canvas = document.getElementById('simulation') as HTMLCanvasElement;
         this.ctx = this.canvas.getContext('2d')!;
+        this.sim = new SimulationEngine({}, this.canvas.width, this.canvas.height);
+        this.diagram = new TimeSpaceDiagram(document.getElementById('timeSpace') as HTMLCanvasElement, this.sim);
+        this.comparison = new ComparisonPane(
+            document.getElementById('comparisonCanvas') as HTMLCanvasElement,
+            document.getElementById('comparisonTitle')!,
+            document.getElementById('comparisonBody')!
+        );
+        this.announcer = new Announcer(document.getElementById('announcements')!);
 
         this.setupControls();
-        this.initializeSimulation();
+        this.loadScenarioFromUrl();
         this.draw();
 
         // Auto-start the simulation
@@ -64,480 +70,903 @@ class TrafficSimulation {
 
     private setupControls(): void {
         const speedLimitSlider = document.getElementById('speedLimit') as HTMLInputElement;
-        const middleLightPositionSlider = document.getElementById('middleLightPosition') as HTMLInputElement;
-        const leftLightOffsetSlider = document.getElementById('leftLightOffset') as HTMLInputElement;
-        const middleLightOffsetSlider = document.getElementById('middleLightOffset') as HTMLInputElement;
-        const rightLightOffsetSlider = document.getElementById('rightLightOffset') as HTMLInputElement;
-        const leftLightCycleSlider = document.getElementById('leftLightCycle') as HTMLInputElement;
-        const middleLightCycleSlider = document.getElementById('middleLightCycle') as HTMLInputElement;
-        const rightLightCycleSlider = document.getElementById('rightLightCycle') as HTMLInputElement;
-
         const speedLimitValue = document.getElementById('speedLimitValue')!;
-        const middleLightPositionValue = document.getElementById('middleLightPositionValue')!;
-        const leftLightOffsetValue = document.getElementById('leftLightOffsetValue')!;
-        const middleLightOffsetValue = document.getElementById('middleLightOffsetValue')!;
-        const rightLightOffsetValue = document.getElementById('rightLightOffsetValue')!;
-        const leftLightCycleValue = document.getElementById('leftLightCycleValue')!;
-        const middleLightCycleValue = document.getElementById('middleLightCycleValue')!;
-        const rightLightCycleValue = document.getElementById('rightLightCycleValue')!;
 
         const startBtn = document.getElementById('startBtn') as HTMLButtonElement;
         const pauseBtn = document.getElementById('pauseBtn') as HTMLButtonElement;
         const resetBtn = document.getElementById('resetBtn') as HTMLButtonElement;
+        const stepBtn = document.getElementById('stepBtn') as HTMLButtonElement;
+        const fastForwardBtn = document.getElementById('fastForwardBtn') as HTMLButtonElement;
+        const playbackSlider = document.getElementById('playbackSpeed') as HTMLInputElement;
+        const addLightBtn = document.getElementById('addLightBtn') as HTMLButtonElement;
+        const statsBtn = document.getElementById('statsBtn') as HTMLButtonElement;
+        const diagramBtn = document.getElementById('diagramBtn') as HTMLButtonElement;
+        const optimizeBtn = document.getElementById('optimizeBtn') as HTMLButtonElement;
+        const optimizeTarget = document.getElementById('optimizeTarget') as HTMLSelectElement;
+        const eastboundWeightSlider = document.getElementById('eastboundWeight') as HTMLInputElement;
+        const eastboundWeightValue = document.getElementById('eastboundWeightValue')!;
 
         speedLimitSlider.addEventListener('input', (e) => {
-            this.speedLimit = parseInt((e.target as HTMLInputElement).value);
-            speedLimitValue.textContent = this.speedLimit.toString();
+            this.sim.setSpeedLimit(parseInt((e.target as HTMLInputElement).value));
+            speedLimitValue.textContent = this.sim.speedLimit.toString();
 
-            // Update car speeds dynamically
-            const newCarSpeed = this.MPH_TO_PIXELS_PER_FRAME(this.speedLimit);
-            this.cars.forEach(car => {
-                car.speed = newCarSpeed;
-            });
+            if (!this.isRunning) this.sim.reset();
+            this.saveScenarioToUrl();
+        });
+
+        const lanesSlider = document.getElementById('lanesPerDirection') as HTMLInputElement;
+        lanesSlider.addEventListener('input', () => {
+            this.sim.setLanesPerDirection(parseInt(lanesSlider.value));
+            document.getElementById('lanesPerDirectionValue')!.textContent = lanesSlider.value;
+            this.saveScenarioToUrl();
+            if (!this.isRunning) this.draw();
+        });
 
-            if (!this.isRunning) this.initializeSimulation();
+        startBtn.addEventListener('click', () => this.start());
+        pauseBtn.addEventListener('click', () => this.pause());
+        resetBtn.addEventListener('click', () => this.reset());
+        stepBtn.addEventListener('click', () => this.stepOnce());
+        fastForwardBtn.addEventListener('click', () => this.fastForward(60));
+        playbackSlider.addEventListener('input', () => {
+            this.playbackSpeed = PLAYBACK_SPEEDS[parseInt(playbackSlider.value)];
+            document.getElementById('playbackSpeedValue')!.textContent = `${this.playbackSpeed}×`;
+        });
+        addLightBtn.addEventListener('click', () => this.addLight());
+        (document.getElementById('applyControllersBtn') as HTMLButtonElement).addEventListener('click', () => {
+            const type = (document.getElementById('allControllers') as HTMLSelectElement).value as ControllerType;
+            this.sim.lightPositions.forEach((_, index) => this.sim.setControllerType(index, type));
+            this.renderLightControls();
+            this.saveScenarioToUrl();
+        });
+        statsBtn.addEventListener('click', () => {
+            this.showStats = !this.showStats;
+            statsBtn.textContent = this.showStats ? 'Hide Stats' : 'Show Stats';
+            document.getElementById('statsPanel')!.hidden = !this.showStats;
+            this.renderStats();
+        });
+        diagramBtn.addEventListener('click', () => {
+            this.showDiagram = !this.showDiagram;
+            diagramBtn.textContent = this.showDiagram ? 'Hide Time-Space Diagram' : 'Show Time-Space Diagram';
+            document.getElementById('timeSpace')!.hidden = !this.showDiagram;
+            if (this.showDiagram) this.diagram.draw();
         });
 
-        middleLightPositionSlider.addEventListener('input', (e) => {
-            this.middleLightPosition = parseInt((e.target as HTMLInputElement).value);
-            middleLightPositionValue.textContent = this.middleLightPosition.toString();
+        optimizeTarget.addEventListener('change', () => {
+            eastboundWeightSlider.disabled = optimizeTarget.value !== 'weighted';
+        });
+        eastboundWeightSlider.addEventListener('input', () => {
+            eastboundWeightValue.textContent = eastboundWeightSlider.value;
+        });
+        optimizeBtn.addEventListener('click', () => this.optimize());
+
+        this.setupDriverControls();
+        this.setupDemandControls();
+
+        const importInput = document.getElementById('importScenario') as HTMLInputElement;
+        (document.getElementById('exportBtn') as HTMLButtonElement).addEventListener('click', () => this.exportScenario());
+        (document.getElementById('importBtn') as HTMLButtonElement).addEventListener('click', () => importInput.click());
+        importInput.addEventListener('change', () => {
+            const file = importInput.files?.[0];
+            if (file) this.importScenario(file);
+            importInput.value = '';
+        });
+        (document.getElementById('scenarioName') as HTMLInputElement).addEventListener('change', () => this.saveScenarioToUrl());
+        window.addEventListener('hashchange', () => this.loadScenarioFromUrl());
 
-            // Update middle light position dynamically
-            if (this.lights.length >= 2) {
-                const availableWidth = this.canvas.width - (2 * this.ROAD_MARGIN);
-                this.lights[1].x = this.ROAD_MARGIN + (availableWidth * this.middleLightPosition / 100);
+        this.setupRecordingControls();
+        this.setupComparisonControls();
+        this.setupTutorialControls();
+        this.setupAccessibilityControls();
 
-                // Update the middle light control position
-                this.updateMiddleLightControlPosition();
-            }
+        (document.getElementById('applyCorridorBtn') as HTMLButtonElement).addEventListener('click', () => this.applyCorridorText());
 
-            if (!this.isRunning) this.initializeSimulation();
+        (document.getElementById('exportTripsBtn') as HTMLButtonElement).addEventListener('click', () => {
+            this.download('-trips.csv', tripLogToCsv(this.sim.tripLog), 'text/csv');
+        });
+        (document.getElementById('exportSignalsBtn') as HTMLButtonElement).addEventListener('click', () => {
+            this.download('-signals.csv', signalLogToCsv(this.sim.signalLog), 'text/csv');
         });
+        (document.getElementById('exportLogsBtn') as HTMLButtonElement).addEventListener('click', () => {
+            this.download('-logs.json', logsToJson(this.currentScenario(), this.sim.tripLog, this.sim.signalLog), 'application/json');
+        });
+
+        this.setupLightDragging();
+        this.renderLightControls();
+    }
 
-        leftLightOffsetSlider.addEventListener('input', (e) => {
-            this.lightOffsets[0] = parseInt((e.target as HTMLInputElement).value);
-            leftLightOffsetValue.textContent = this.lightOffsets[0].toString();
+    private setupDemandControls(): void {
+        const sliders: { id: string; field: 'eastboundVolume' | 'westboundVolume' | 'platoonSize' }[] = [
+            { id: 'eastboundVolume', field: 'eastboundVolume' },
+            { id: 'westboundVolume', field: 'westboundVolume' },
+            { id: 'platoonSize', field: 'platoonSize' }
+        ];
+
+        sliders.forEach(({ id, field }) => {
+            const slider = document.getElementById(id) as HTMLInputElement;
+            slider.addEventListener('input', () => {
+                document.getElementById(`${id}Value`)!.textContent = slider.value;
+                this.sim.setDemand({ ...this.sim.demand, [field]: parseInt(slider.value) });
+                this.saveScenarioToUrl();
+            });
         });
 
-        middleLightOffsetSlider.addEventListener('input', (e) => {
-            this.lightOffsets[1] = parseInt((e.target as HTMLInputElement).value);
-            middleLightOffsetValue.textContent = this.lightOffsets[1].toString();
+        const leftTurnShare = document.getElementById('leftTurnShare') as HTMLInputElement;
+        leftTurnShare.addEventListener('input', () => {
+            document.getElementById('leftTurnShareValue')!.textContent = leftTurnShare.value;
+            this.sim.setDemand({ ...this.sim.demand, leftTurnShare: parseInt(leftTurnShare.value) / 100 });
+            this.saveScenarioToUrl();
         });
 
-        rightLightOffsetSlider.addEventListener('input', (e) => {
-            this.lightOffsets[2] = parseInt((e.target as HTMLInputElement).value);
-            rightLightOffsetValue.textContent = this.lightOffsets[2].toString();
+        const pattern = document.getElementById('arrivalPattern') as HTMLSelectElement;
+        pattern.addEventListener('change', () => {
+            this.sim.setDemand({ ...this.sim.demand, pattern: pattern.value as ArrivalPattern });
+            this.saveScenarioToUrl();
         });
+    }
 
-        leftLightCycleSlider.addEventListener('input', (e) => {
-            this.lightCycleTimes[0] = parseInt((e.target as HTMLInputElement).value);
-            leftLightCycleValue.textContent = this.lightCycleTimes[0].toString();
-            if (this.lights[0]) this.lights[0].cycleTime = this.lightCycleTimes[0];
+    private setupRecordingControls(): void {
+        const timeline = document.getElementById('timeline') as HTMLInputElement;
+        timeline.addEventListener('input', () => {
+            this.pause();
+            this.replayIndex = parseInt(timeline.value);
+            this.draw();
         });
 
-        middleLightCycleSlider.addEventListener('input', (e) => {
-            this.lightCycleTimes[1] = parseInt((e.target as HTMLInputElement).value);
-            middleLightCycleValue.textContent = this.lightCycleTimes[1].toString();
-            if (this.lights[1]) this.lights[1].cycleTime = this.lightCycleTimes[1];
+        const importInput = document.getElementById('importRecording') as HTMLInputElement;
+        (document.getElementById('replayBtn') as HTMLButtonElement).addEventListener('click', () => this.replay());
+        (document.getElementById('exportRecordingBtn') as HTMLButtonElement).addEventListener('click', () => this.exportRecording());
+        (document.getElementById('importRecordingBtn') as HTMLButtonElement).addEventListener('click', () => importInput.click());
+        importInput.addEventListener('change', () => {
+            const file = importInput.files?.[0];
+            if (file) this.importRecording(file);
+            importInput.value = '';
         });
+    }
 
-        rightLightCycleSlider.addEventListener('input', (e) => {
-            this.lightCycleTimes[2] = parseInt((e.target as HTMLInputElement).value);
-            rightLightCycleValue.textContent = this.lightCycleTimes[2].toString();
-            if (this.lights[2]) this.lights[2].cycleTime = this.lightCycleTimes[2];
+    private setupComparisonControls(): void {
+        const importInput = document.getElementById('importComparison') as HTMLInputElement;
+        (document.getElementById('cloneComparisonBtn') as HTMLButtonElement).addEventListener('click', () => {
+            const scenario = this.currentScenario();
+            this.openComparison({ ...scenario, name: `Copy of ${scenario.name}` });
+        });
+        (document.getElementById('importComparisonBtn') as HTMLButtonElement).addEventListener('click', () => importInput.click());
+        importInput.addEventListener('change', async () => {
+            const file = importInput.files?.[0];
+            importInput.value = '';
+            if (!file) return;
+            try {
+                this.openComparison(scenarioFromJson(await file.text()));
+            } catch (error) {
+                this.showScenarioStatus((error as Error).message);
+            }
         });
+        (document.getElementById('closeComparisonBtn') as HTMLButtonElement).addEventListener('click', () => {
+            this.showComparison = false;
+            document.getElementById('comparison')!.hidden = true;
+            (document.getElementById('closeComparisonBtn') as HTMLButtonElement).disabled = true;
+        });
+    }
 
-        startBtn.addEventListener('click', () => this.start());
-        pauseBtn.addEventListener('click', () => this.pause());
-        resetBtn.addEventListener('click', () => this.reset());
+    private setupTutorialControls(): void {
+        const importInput = document.getElementById('importTutorial') as HTMLInputElement;
+        (document.getElementById('tutorialBtn') as HTMLButtonElement).addEventListener('click', () => this.startTutorial(GREEN_WAVE_TUTORIAL));
+        (document.getElementById('importTutorialBtn') as HTMLButtonElement).addEventListener('click', () => importInput.click());
+        importInput.addEventListener('change', async () => {
+            const file = importInput.files?.[0];
+            importInput.value = '';
+            if (!file) return;
+            try {
+                this.startTutorial(tutorialFromJson(await file.text()));
+            } catch (error) {
+                document.getElementById('tutorialStatus')!.textContent = (error as Error).message;
+            }
+        });
+        (document.getElementById('tutorialBackBtn') as HTMLButtonElement).addEventListener('click', () => this.showTutorialStep(-1));
+        (document.getElementById('tutorialAgainBtn') as HTMLButtonElement).addEventListener('click', () => this.showTutorialStep(0));
+        (document.getElementById('tutorialNextBtn') as HTMLButtonElement).addEventListener('click', () => this.showTutorialStep(1));
+        (document.getElementById('tutorialExitBtn') as HTMLButtonElement).addEventListener('click', () => this.exitTutorial());
     }
 
-    private updateMiddleLightControlPosition(): void {
-        // This could be used to dynamically reposition the middle light control
-        // For now, the CSS positioning is sufficient
-    }
-
-    private spawnCars(): void {
-        const carSpeed = this.MPH_TO_PIXELS_PER_FRAME(this.speedLimit);
-
-        // Spawn eastbound car (from left)
-        this.cars.push({
-            x: -50,
-            y: this.canvas.height / 2 - 40,
-            speed: carSpeed,
-            direction: 1,
-            color: '#4444ff',
-            hitRedLight: false
-        });
-
-        // Spawn westbound car (from right)
-        this.cars.push({
-            x: this.canvas.width + 50,
-            y: this.canvas.height / 2 + 40,
-            speed: carSpeed,
-            direction: -1,
-            color: '#ff44ff',
-            hitRedLight: false
-        });
-    }
-
-    private initializeSimulation(): void {
-        this.lights = [];
-        this.cars = [];
-        this.time = 0;
-
-        // Create exactly 3 traffic lights: left, middle (adjustable), right
-        const availableWidth = this.canvas.width - (2 * this.ROAD_MARGIN);
-        const middleX = this.ROAD_MARGIN + (availableWidth * this.middleLightPosition / 100);
-
-        this.lights = [
-            {
-                x: this.ROAD_MARGIN,
-                currentState: this.calculateLightState(0, 0),
-                timeInState: 0,
-                cycleTime: this.lightCycleTimes[0]
-            },
-            {
-                x: middleX,
-                currentState: this.calculateLightState(0, 1),
-                timeInState: 0,
-                cycleTime: this.lightCycleTimes[1]
-            },
-            {
-                x: this.canvas.width - this.ROAD_MARGIN,
-                currentState: this.calculateLightState(0, 2),
-                timeInState: 0,
-                cycleTime: this.lightCycleTimes[2]
+    private setupAccessibilityControls(): void {
+        const colorBlindSafe = document.getElementById('colorBlindSafe') as HTMLInputElement;
+        colorBlindSafe.addEventListener('change', () => {
+            this.renderOptions = { colorBlindSafe: colorBlindSafe.checked };
+            if (!this.isRunning) this.draw();
+        });
+        const announceEvents = document.getElementById('announceEvents') as HTMLInputElement;
+        announceEvents.addEventListener('change', () => {
+            this.announcer.enabled = announceEvents.checked;
+        });
+
+        // Space starts and pauses, R resets, S steps. Keys typed into a text
+        // field, and Space or Enter on any other control (so buttons, boxes
+        // and lists still work from the keyboard), are left to the browser.
+        document.addEventListener('keydown', (e) => {
+            if (e.ctrlKey || e.metaKey || e.altKey) return;
+            const target = e.target as HTMLElement;
+            if (isTextEntry(target)) return;
+            if ((e.key === ' ' || e.key === 'Enter') && target.closest('input, select, button')) return;
+
+            switch (e.key) {
+                case ' ':
+                    if (this.isRunning) {
+                        this.pause();
+                        this.announcer.announce('Paused');
+                    } else {
+                        this.start();
+                        this.announcer.announce('Running');
+                    }
+                    break;
+                case 'r':
+                case 'R':
+                    this.reset();
+                    this.announcer.announce('Reset');
+                    break;
+                case 's':
+                case 'S':
+                    this.stepOnce();
+                    break;
+                default:
+                    return;
             }
-        ];
+            e.preventDefault();
+        });
+    }
 
-        // Cars will be spawned dynamically - start with empty array
-        this.cars = [];
-        this.lastCarSpawnTime = 0;
+    // Keep whatever the user had set up so leaving the tour puts it back
+    private startTutorial(script: TutorialScript): void {
+        if (!this.tutorial) this.scenarioBeforeTutorial = this.currentScenario();
+        this.tutorial = { script, step: 0 };
+        document.getElementById('tutorialStatus')!.textContent = '';
+        document.getElementById('tutorialTitle')!.textContent = script.title;
+        document.getElementById('tutorial')!.hidden = false;
+        this.showTutorialStep(0);
     }
 
-    private calculateLightState(time: number, lightIndex: number): 'red' | 'yellow' | 'green' {
-        // Get the actual current position of this light (for dynamic updates)
-        let lightPosition: number;
-        if (this.lights.length > lightIndex) {
-            lightPosition = this.lights[lightIndex].x;
-        } else {
-            // Fallback for initialization
-            if (lightIndex === 0) {
-                lightPosition = this.ROAD_MARGIN;
-            } else if (lightIndex === 1) {
-                const availableWidth = this.canvas.width - (2 * this.ROAD_MARGIN);
-                lightPosition = this.ROAD_MARGIN + (availableWidth * this.middleLightPosition / 100);
-            } else {
-                lightPosition = this.canvas.width - this.ROAD_MARGIN;
-            }
-        }
+    // Move by a number of steps (0 replays the current one), then restart
+    // the run with that step's settings and play it for its set time
+    private showTutorialStep(move: number): void {
+        if (!this.tutorial) return;
+        const { script } = this.tutorial;
+        const index = Math.min(Math.max(this.tutorial.step + move, 0), script.steps.length - 1);
+        const step = script.steps[index];
+        this.tutorial.step = index;
 
-        // Calculate travel time for eastbound car to reach this light from the left edge
-        const distanceFromStart = lightPosition;
-        const distanceInFeet = distanceFromStart / this.PIXELS_PER_FOOT;
+        this.pause();
+        this.applyScenario(createScenario(tutorialConfigs(script)[index], script.title));
+        this.tutorialStopAt = step.runSeconds * this.sim.STEPS_PER_SECOND;
 
-        // Calculate real-world travel time, then convert to simulation time
-        const realTravelTimeSeconds = (distanceInFeet * 3600) / (this.speedLimit * 5280);
-        const simTravelTimeSeconds = realTravelTimeSeconds / this.TIME_SCALE;
+        document.getElementById('tutorialProgress')!.textContent = `Step ${index + 1} of ${script.steps.length}`;
+        document.getElementById('tutorialCaption')!.textContent = step.caption;
+        (document.getElementById('tutorialBackBtn') as HTMLButtonElement).disabled = index === 0;
+        (document.getElementById('tutorialNextBtn') as HTMLButtonElement).disabled = index === script.steps.length - 1;
+        this.start();
+    }
 
-        // Apply individual light offset and cycle time
-        const lightOffset = this.lightOffsets[lightIndex] || 0;
-        const lightCycleTime = this.lightCycleTimes[lightIndex] || this.cycleTime;
-        const currentSimTime = time / this.FPS; // convert frame time to simulation seconds
+    private exitTutorial(): void {
+        this.tutorial = null;
+        this.tutorialStopAt = null;
+        document.getElementById('tutorial')!.hidden = true;
+        this.pause();
+        if (this.scenarioBeforeTutorial) this.applyScenario(this.scenarioBeforeTutorial);
+        this.scenarioBeforeTutorial = null;
+    }
 
-        // Choose timing mode based on whether any offsets are being used
-        const hasAnyOffset = this.lightOffsets.some(offset => offset !== 0);
+    // Load a configuration into pane B and restart both runs together
+    private openComparison(scenario: Scenario): void {
+        this.comparison.load(scenario, this.sim);
+        this.showComparison = true;
+        document.getElementById('comparison')!.hidden = false;
+        (document.getElementById('closeComparisonBtn') as HTMLButtonElement).disabled = false;
+        this.reset();
+    }
 
-        // Simple offset logic: each light is just offset from the base time
-        // Positive offset = light changes LATER (subtract offset to delay)
-        const effectiveTime = (currentSimTime - lightOffset + lightCycleTime) % lightCycleTime;
+    private syncDemandControls(demand: Demand): void {
+        const set = (id: string, value: number) => {
+            (document.getElementById(id) as HTMLInputElement).value = value.toString();
+            document.getElementById(`${id}Value`)!.textContent = value.toString();
+        };
+        set('eastboundVolume', demand.eastboundVolume);
+        set('westboundVolume', demand.westboundVolume);
+        set('platoonSize', demand.platoonSize);
+        set('leftTurnShare', Math.round(demand.leftTurnShare * 100));
+        (document.getElementById('arrivalPattern') as HTMLSelectElement).value = demand.pattern;
+    }
 
-        // Light cycle: Green (45%), Yellow (10%), Red (45%)
-        const greenTime = lightCycleTime * 0.45;
-        const yellowTime = lightCycleTime * 0.1;
+    private setupDriverControls(): void {
+        const sliders: { id: string; field: 'speedVariation' | 'acceleration' | 'deceleration' | 'aggressiveShare'; scale: number }[] = [
+            { id: 'speedVariation', field: 'speedVariation', scale: 100 },
+            { id: 'aggressiveShare', field: 'aggressiveShare', scale: 100 },
+            { id: 'acceleration', field: 'acceleration', scale: 1 },
+            { id: 'deceleration', field: 'deceleration', scale: 1 }
+        ];
 
-        if (effectiveTime < greenTime) {
-            return 'green';
-        } else if (effectiveTime < greenTime + yellowTime) {
-            return 'yellow';
-        } else {
-            return 'red';
+        sliders.forEach(({ id, field, scale }) => {
+            const slider = document.getElementById(id) as HTMLInputElement;
+            slider.addEventListener('input', () => {
+                document.getElementById(`${id}Value`)!.textContent = slider.value;
+                this.sim.setDriverModel({ ...this.sim.driverModel, [field]: parseInt(slider.value) / scale });
+                this.saveScenarioToUrl();
+            });
+        });
+
+        const distribution = document.getElementById('speedDistribution') as HTMLSelectElement;
+        distribution.addEventListener('change', () => {
+            this.sim.setDriverModel({ ...this.sim.driverModel, distribution: distribution.value as SpeedDistribution });
+            this.saveScenarioToUrl();
+        });
+    }
+
+    private syncDriverControls(model: DriverModel): void {
+        const set = (id: string, value: number) => {
+            (document.getElementById(id) as HTMLInputElement).value = value.toString();
+            document.getElementById(`${id}Value`)!.textContent = value.toString();
+        };
+        set('speedVariation', Math.round(model.speedVariation * 100));
+        set('aggressiveShare', Math.round(model.aggressiveShare * 100));
+        set('acceleration', model.acceleration);
+        set('deceleration', model.deceleration);
+        (document.getElementById('speedDistribution') as HTMLSelectElement).value = model.distribution;
+    }
+
+    // Replace the road with the corridor typed into the text box
+    private applyCorridorText(): void {
+        const status = document.getElementById('corridorStatus')!;
+        try {
+            const corridor = parseCorridor((document.getElementById('corridorInput') as HTMLTextAreaElement).value);
+            this.pause();
+            this.applyScenario({ ...this.currentScenario(), config: applyCorridor(this.sim.getConfig(), corridor) });
+            this.saveScenarioToUrl();
+            status.textContent = `${(corridor.lengthFeet / 5280).toFixed(2)} mi, ${corridor.positions.length} intersections`;
+        } catch (error) {
+            status.textContent = (error as Error).message;
         }
     }
 
-    private update(): void {
-        if (!this.isRunning) return;
+    // Build one offset/cycle/phase card per light from the current lights array
+    private renderLightControls(): void {
+        (document.getElementById('corridorInput') as HTMLTextAreaElement).value = corridorToText(this.sim.getConfig());
+
+        const container = document.getElementById('lightControls')!;
+        container.innerHTML = '';
+
+        this.sim.lightPositions.forEach((_, index) => {
+            const offset = this.sim.lightOffsets[index];
+            const cycleTime = this.sim.lightCycleTimes[index];
+            const plan = this.sim.phasePlans[index];
+            const crossVolume = this.sim.crossVolumes[index];
+            const controllerType = this.sim.controllerTypes[index];
+            const control = document.createElement('div');
+            control.className = 'light-control';
+            control.innerHTML = `
+                <h4>Light ${index + 1}</h4>
+                <select id="controller${index}" aria-label="Signal control for light ${index + 1}">
+                    ${CONTROLLER_TYPES.map(type => `<option value="${type}"${type === controllerType ? ' selected' : ''}>${CONTROLLER_LABELS[type]}</option>`).join('')}
+                </select>
+                <div class="control-group">
+                    <label for="lightOffset${index}">Offset (sec):</label>
+                    <input type="range" id="lightOffset${index}" min="0" max="60" value="${offset}" step="1">
+                    <span class="value-display" id="lightOffset${index}Value">${offset}</span>
+                </div>
+                <div class="control-group">
+                    <label for="lightCycle${index}">Cycle (sec):</label>
+                    <input type="range" id="lightCycle${index}" min="5" max="60" value="${cycleTime}" step="5">
+                    <span class="value-display" id="lightCycle${index}Value">${cycleTime}</span>
+                </div>
+                <div class="phase-plan">
+                    <label>Green (%) <input type="number" data-field="greenSplit" min="5" max="95" step="1" value="${Math.round(plan.greenSplit * 100)}"></label>
+                    <label>Yellow (sec) <input type="number" data-field="yellowTime" min="2" max="8" step="0.5" value="${plan.yellowTime}"></label>
+                    <label>All-red (sec) <input type="number" data-field="allRedTime" min="0" max="5" step="0.5" value="${plan.allRedTime}"></label>
+                    <label>Min green (sec) <input type="number" data-field="minGreen" min="0" max="60" step="1" value="${plan.minGreen}"></label>
+                    <label>Protected left (sec) <input type="number" data-field="protectedLeftTime" min="0" max="30" step="1" value="${plan.protectedLeftTime}"></label>
+                </div>
+                <div class="phase-error"></div>
+                <div class="control-group">
+                    <label for="crossVolume${index}">Cross street (veh/h each way):</label>
+                    <input type="range" id="crossVolume${index}" min="0" max="900" value="${crossVolume}" step="50">
+                    <span class="value-display" id="crossVolume${index}Value">${crossVolume}</span>
+                </div>
+                <div class="cross-split" id="crossSplit${index}"></div>
+                <div class="queue-status" id="queueStatus${index}"></div>
+                <div class="queue-warning" id="queueWarning${index}"></div>
+                <button class="remove-light">Remove</button>
+            `;
+
+            const offsetSlider = control.querySelector(`#lightOffset${index}`) as HTMLInputElement;
+            const offsetValue = control.querySelector(`#lightOffset${index}Value`)!;
+            const cycleSlider = control.querySelector(`#lightCycle${index}`) as HTMLInputElement;
+            const cycleValue = control.querySelector(`#lightCycle${index}Value`)!;
+            const removeBtn = control.querySelector('.remove-light') as HTMLButtonElement;
+            const phaseError = control.querySelector('.phase-error')!;
+            const phaseInputs = Array.from(control.querySelectorAll('.phase-plan input')) as HTMLInputElement[];
+            const crossSlider = control.querySelector(`#crossVolume${index}`) as HTMLInputElement;
+            const crossValue = control.querySelector(`#crossVolume${index}Value`)!;
+            const crossSplit = control.querySelector(`#crossSplit${index}`)!;
+            const controllerSelect = control.querySelector(`#controller${index}`) as HTMLSelectElement;
+
+            // Green time the side street gets out of each cycle. Actuated lights
+            // treat these as maximums and adaptive ones re-split them every cycle.
+            const updateCrossSplit = () => {
+                const phases = phaseDurations(this.sim.phasePlans[index], this.sim.lightCycleTimes[index]);
+                const prefix = { fixed: 'Main', actuated: 'Max main', adaptive: 'Starting main' }[this.sim.controllerTypes[index]];
+                crossSplit.textContent = `${prefix} green ${phases.green.toFixed(1)}s, cross green ${phases.crossGreen.toFixed(1)}s`;
+                // Only fixed-time lights follow an offset
+                offsetSlider.disabled = this.sim.controllerTypes[index] !== 'fixed';
+            };
+            updateCrossSplit();
 
-        this.time += 1;
+            controllerSelect.addEventListener('change', () => {
+                this.sim.setControllerType(index, controllerSelect.value as ControllerType);
+                updateCrossSplit();
+                this.saveScenarioToUrl();
+            });
 
-        // Spawn new cars every 2 seconds
-        if (this.time - this.lastCarSpawnTime >= this.CAR_SPAWN_INTERVAL) {
-            this.spawnCars();
-            this.lastCarSpawnTime = this.time;
-        }
+            crossSlider.addEventListener('input', () => {
+                this.sim.setCrossVolume(index, parseInt(crossSlider.value));
+                crossValue.textContent = crossSlider.value;
+                this.saveScenarioToUrl();
+            });
 
-        // Update traffic lights
-        this.lights.forEach((light, index) => {
-            light.currentState = this.calculateLightState(this.time, index);
-        });
-
-        // Update cars
-        this.cars.forEach((car, carIndex) => {
-            const nextX = car.x + (car.speed * car.direction);
-
-            // Define car dimensions for collision detection (use visual size for proper spacing)
-            const minCarLength = 32; // same as display size
-            const carLength = Math.max(15 * this.PIXELS_PER_FOOT, minCarLength);
-            const buffer = carLength * 0.2; // 20% of car length as buffer
-            const followingDistance = carLength + buffer;
-
-            let blocked = false;
-
-            // Check for collisions with other cars in the same direction
-            for (let i = 0; i < this.cars.length; i++) {
-                if (i === carIndex) continue; // Skip self
-
-                const otherCar = this.cars[i];
-
-                // Only check cars going in the same direction and on the same lane
-                if (otherCar.direction === car.direction && Math.abs(otherCar.y - car.y) < 20) {
-                    if (car.direction === 1) { // Eastbound cars
-                        // Check if there's a car ahead that we would get too close to
-                        if (otherCar.x > car.x && otherCar.x - nextX < followingDistance) {
-                            blocked = true;
-                            break;
-                        }
-                    } else { // Westbound cars
-                        // Check if there's a car ahead that we would get too close to
-                        if (otherCar.x < car.x && nextX - otherCar.x < followingDistance) {
-                            blocked = true;
-                            break;
-                        }
-                    }
-                }
-            }
+            offsetSlider.addEventListener('input', () => {
+                this.sim.setLightOffset(index, parseInt(offsetSlider.value));
+                offsetValue.textContent = offsetSlider.value;
+                this.saveScenarioToUrl();
+            });
 
-            // Check for red light collisions at stop lines (only if not blocked by other cars)
-            if (!blocked) {
-                for (const light of this.lights) {
-                    // Define stop line positions
-                    const eastboundStopLine = light.x - 25;
-                    const westboundStopLine = light.x + 25;
-
-                    if (car.direction === 1) { // Eastbound car
-                        // Check if car would cross the stop line on next move
-                        if (car.x + carLength/2 < eastboundStopLine && nextX + carLength/2 >= eastboundStopLine) {
-                            // Car is about to cross the line - check light state
-                            if (light.currentState === 'red') {
-                                // Stop before the line for red light - this counts as hitting a red light
-                                blocked = true;
-                                car.hitRedLight = true;
-                                break;
-                            }
-                            // Continue through for yellow or green
-                        }
-                        // Also block if already stopped at a red light
-                        else if (car.x + carLength/2 >= eastboundStopLine - followingDistance && car.x + carLength/2 <= eastboundStopLine && light.currentState === 'red') {
-                            blocked = true;
-                            // Car is already marked as having hit red light
-                            break;
-                        }
-                    } else { // Westbound car
-                        // Check if car would cross the stop line on next move
-                        if (car.x - carLength/2 > westboundStopLine && nextX - carLength/2 <= westboundStopLine) {
-                            // Car is about to cross the line - check light state
-                            if (light.currentState === 'red') {
-                                // Stop before the line for red light - this counts as hitting a red light
-                                blocked = true;
-                                car.hitRedLight = true;
-                                break;
-                            }
-                            // Continue through for yellow or green
-                        }
-                        // Also block if already stopped at a red light
-                        else if (car.x - carLength/2 <= westboundStopLine + followingDistance && car.x - carLength/2 >= westboundStopLine && light.currentState === 'red') {
-                            blocked = true;
-                            // Car is already marked as having hit red light
-                            break;
-                        }
-                    }
+            cycleSlider.addEventListener('input', () => {
+                const error = validatePhasePlan(this.sim.phasePlans[index], parseInt(cycleSlider.value));
+                phaseError.textContent = error ?? '';
+                if (error) {
+                    // Keep the last cycle that fits the phase plan
+                    cycleSlider.value = this.sim.lightCycleTimes[index].toString();
+                    return;
                 }
+
+                this.sim.setLightCycleTime(index, parseInt(cycleSlider.value));
+                cycleValue.textContent = cycleSlider.value;
+                updateCrossSplit();
+                this.saveScenarioToUrl();
+            });
+
+            phaseInputs.forEach(input => {
+                input.addEventListener('change', () => {
+                    const candidate: PhasePlan = { ...this.sim.phasePlans[index] };
+                    phaseInputs.forEach(field => {
+                        const value = parseFloat(field.value);
+                        const key = field.dataset.field as keyof PhasePlan;
+                        candidate[key] = key === 'greenSplit' ? value / 100 : value;
+                    });
+
+                    const error = validatePhasePlan(candidate, this.sim.lightCycleTimes[index]);
+                    phaseError.textContent = error ?? '';
+                    if (error) return;
+
+                    this.sim.setPhasePlan(index, candidate);
+                    updateCrossSplit();
+                    this.saveScenarioToUrl();
+                    if (!this.isRunning) this.draw();
+                });
+            });
+
+            removeBtn.disabled = this.sim.lightPositions.length <= MIN_LIGHTS;
+            removeBtn.addEventListener('click', () => this.removeLight(index));
+
+            container.appendChild(control);
+        });
+
+        (document.getElementById('addLightBtn') as HTMLButtonElement).disabled =
+            this.sim.lightPositions.length >= MAX_LIGHTS;
+    }
+
+    private setupLightDragging(): void {
+        const toCanvasX = (e: MouseEvent) => {
+            const rect = this.canvas.getBoundingClientRect();
+            return (e.clientX - rect.left) * (this.canvas.width / rect.width);
+        };
+
+        this.canvas.addEventListener('mousedown', (e) => {
+            const x = toCanvasX(e);
+            const index = this.sim.lights.findIndex(light => Math.abs(light.x - x) < 15);
+            if (index !== -1) {
+                this.draggedLightIndex = index;
+                this.canvas.style.cursor = 'grabbing';
             }
+        });
 
-            // Move car if not blocked
-            if (!blocked) {
-                car.x = nextX;
+        this.canvas.addEventListener('mousemove', (e) => {
+            const x = toCanvasX(e);
+            if (this.draggedLightIndex === null) {
+                const overLight = this.sim.lights.some(light => Math.abs(light.x - x) < 15);
+                this.canvas.style.cursor = overLight ? 'grab' : 'default';
+                return;
             }
 
+            this.sim.setLightPosition(this.draggedLightIndex, this.sim.xToPosition(x));
+            if (!this.isRunning) this.draw();
         });
 
-        // Remove cars that have gone off screen
-        this.cars = this.cars.filter(car => {
-            if (car.direction === 1) {
-                return car.x <= this.canvas.width + 100;
-            } else {
-                return car.x >= -100;
-            }
+        const endDrag = () => {
+            if (this.draggedLightIndex === null) return;
+            this.draggedLightIndex = null;
+            this.canvas.style.cursor = 'default';
+
+            // Keep lights ordered west to east so the controls read left to right
+            this.sim.sortLights();
+            this.renderLightControls();
+            this.saveScenarioToUrl();
+            if (!this.isRunning) this.draw();
+        };
+
+        this.canvas.addEventListener('mouseup', endDrag);
+        this.canvas.addEventListener('mouseleave', endDrag);
+    }
+
+    private renderStats(): void {
+        if (!this.showStats) return;
+
+        const row = (label: string, stats: DirectionStats, key: DirectionKey) => {
+            const summary = summarize(stats);
+            return `
+                <tr>
+                    <td>${label}</td>
+                    <td>${summary.completed}</td>
+                    <td>${(summary.greenWaveRate * 100).toFixed(0)}%</td>
+                    <td>${summary.averageDelay.toFixed(1)}s</td>
+                    <td>${summary.stopsPerCar.toFixed(2)}</td>
+                    <td>${summary.redLightRunners}</td>
+                    <td>${summary.turnedLeft}</td>
+                    <td>${this.sim.entryQueues[key].length}</td>
+                    <td>${summary.fuelPerCar.toFixed(0)} mL</td>
+                    <td>${(summary.totalCo2 / 1000).toFixed(2)} kg</td>
+                </tr>
+            `;
+        };
+
+        const cross = summarize(this.sim.crossTraffic.stats);
+        const crossRow = `
+            <tr>
+                <td>Cross streets</td>
+                <td>${cross.completed}</td>
+                <td>${(cross.greenWaveRate * 100).toFixed(0)}%</td>
+                <td>${cross.averageDelay.toFixed(1)}s</td>
+                <td>${cross.stopsPerCar.toFixed(2)}</td>
+                <td>-</td>
+                <td>-</td>
+                <td>${this.sim.crossTraffic.waiting.length}</td>
+                <td>${cross.fuelPerCar.toFixed(0)} mL</td>
+                <td>${(cross.totalCo2 / 1000).toFixed(2)} kg</td>
+            </tr>
+        `;
+
+        // Fuel and CO2 for all traffic that has left the model so far
+        const totals = [summarize(this.sim.stats.eastbound), summarize(this.sim.stats.westbound), cross];
+        const totalFuel = totals.reduce((sum, summary) => sum + summary.totalFuel, 0);
+        const totalCo2 = totals.reduce((sum, summary) => sum + summary.totalCo2, 0);
+        const totalRow = `
+            <tr>
+                <td>Scenario total</td>
+                <td colspan="7"></td>
+                <td>${(totalFuel / 1000).toFixed(2)} L</td>
+                <td>${(totalCo2 / 1000).toFixed(2)} kg</td>
+            </tr>
+        `;
+
+        document.getElementById('statsBody')!.innerHTML =
+            row('Eastbound', this.sim.stats.eastbound, 'eastbound') +
+            row('Westbound', this.sim.stats.westbound, 'westbound') +
+            crossRow +
+            totalRow;
+    }
+
+    // Current and longest queues on each light card, with a warning while
+    // the current timing keeps backing queues up into the next intersection
+    private renderQueueStatus(): void {
+        const recentSteps = this.SPILLBACK_WARNING_SECONDS * this.sim.STEPS_PER_SECOND;
+        const recent = (step: number | null) => step !== null && this.sim.time - step <= recentSteps;
+
+        this.sim.lights.forEach((light, index) => {
+            const status = document.getElementById(`queueStatus${index}`);
+            const warning = document.getElementById(`queueWarning${index}`);
+            if (!status || !warning) return;
+
+            const { eastbound, westbound } = light.queues;
+            status.textContent = `Queue E ${eastbound.vehicles} (max ${eastbound.maxVehicles}), W ${westbound.vehicles} (max ${westbound.maxVehicles})`;
+
+            const warnings: string[] = [];
+            if (recent(eastbound.lastSpillback)) warnings.push(`Eastbound queue backs up into Light ${index}`);
+            if (recent(westbound.lastSpillback)) warnings.push(`Westbound queue backs up into Light ${index + 2}`);
+            if (recent(light.lastBoxBlocked)) warnings.push('Queued cars are blocking the intersection');
+            if (warnings.length > 0) warnings.push('Try different offsets or cycle times');
+            warning.textContent = warnings.join('. ');
         });
     }
 
-    private draw(): void {
-        // Clear canvas
-        this.ctx.fillStyle = '#222';
-        this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
-
-        // Draw road
-        this.ctx.fillStyle = '#444';
-        this.ctx.fillRect(0, this.canvas.height / 2 - 60, this.canvas.width, 120);
-
-        // Draw center line
-        this.ctx.strokeStyle = '#ffff00';
-        this.ctx.setLineDash([20, 10]);
-        this.ctx.lineWidth = 3;
-        this.ctx.beginPath();
-        this.ctx.moveTo(0, this.canvas.height / 2);
-        this.ctx.lineTo(this.canvas.width, this.canvas.height / 2);
-        this.ctx.stroke();
-        this.ctx.setLineDash([]);
-
-        // Draw distance lines between lights
-        if (this.lights.length >= 2) {
-            this.ctx.strokeStyle = '#888';
-            this.ctx.lineWidth = 2;
-            this.ctx.setLineDash([5, 5]);
-
-            for (let i = 0; i < this.lights.length - 1; i++) {
-                const light1 = this.lights[i];
-                const light2 = this.lights[i + 1];
-
-                // Draw line between lights above the road
-                this.ctx.beginPath();
-                this.ctx.moveTo(light1.x, this.canvas.height / 2 - 110);
-                this.ctx.lineTo(light2.x, this.canvas.height / 2 - 110);
-                this.ctx.stroke();
-
-                // Calculate and display distance and travel time
-                const distance = Math.abs(light2.x - light1.x);
-                const distanceInFeet = distance / this.PIXELS_PER_FOOT;
-                const distanceInMiles = distanceInFeet / 5280;
-
-                // Real-world travel time in seconds, then convert to simulation time
-                const realTravelTimeSeconds = (distanceInFeet * 3600) / (this.speedLimit * 5280);
-                const simTravelTimeSeconds = realTravelTimeSeconds / this.TIME_SCALE;
-
-                this.ctx.fillStyle = '#fff';
-                this.ctx.font = '12px Arial';
-                this.ctx.textAlign = 'center';
-
-                // Display distance in miles with appropriate precision
-                let distanceText;
-                if (distanceInMiles >= 1) {
-                    distanceText = `${distanceInMiles.toFixed(1)} mi`;
-                } else {
-                    const fraction = distanceInMiles;
-                    if (fraction > 0.75) distanceText = "3/4 mi";
-                    else if (fraction > 0.66) distanceText = "2/3 mi";
-                    else if (fraction > 0.5) distanceText = "1/2 mi";
-                    else if (fraction > 0.33) distanceText = "1/3 mi";
-                    else if (fraction > 0.25) distanceText = "1/4 mi";
-                    else distanceText = `${(fraction * 5280).toFixed(0)} ft`;
-                }
+    // The search yields to the browser as it goes, so the road keeps running
+    // and the lights can still be edited meanwhile; a result for lights that
+    // have since changed is thrown away
+    private async optimize(): Promise<void> {
+        const resultText = document.getElementById('optimizeResult')!;
+        const optimizeBtn = document.getElementById('optimizeBtn') as HTMLButtonElement;
+        const lightsKey = () => JSON.stringify([this.sim.lightPositions, this.sim.lightCycleTimes, this.sim.controllerTypes, this.sim.phasePlans]);
+        const before = lightsKey();
+        let result;
+        optimizeBtn.disabled = true;
+        resultText.textContent = 'Optimizing...';
+        try {
+            result = await optimizeOffsets(this.sim, {
+                target: (document.getElementById('optimizeTarget') as HTMLSelectElement).value as OptimizeTarget,
+                eastboundWeight: parseInt((document.getElementById('eastboundWeight') as HTMLInputElement).value) / 100,
+                optimizeCycle: (document.getElementById('optimizeCycle') as HTMLInputElement).checked
+            }, fraction => {
+                resultText.textContent = `Optimizing... ${Math.round(fraction * 100)}%`;
+            });
+        } catch (error) {
+            resultText.textContent = (error as Error).message;
+            return;
+        } finally {
+            optimizeBtn.disabled = false;
+        }
+        if (lightsKey() !== before) {
+            resultText.textContent = 'The lights changed while optimizing; run it again';
+            return;
+        }
 
-                this.ctx.fillText(
-                    distanceText,
-                    (light1.x + light2.x) / 2,
-                    this.canvas.height / 2 - 120
-                );
-                this.ctx.fillText(
-                    `${simTravelTimeSeconds.toFixed(1)}s @ ${this.speedLimit}mph`,
-                    (light1.x + light2.x) / 2,
-                    this.canvas.height / 2 - 108
-                );
-            }
-            this.ctx.setLineDash([]);
+        result.offsets.forEach((offset, index) => {
+            this.sim.setLightOffset(index, offset);
+            this.sim.setLightCycleTime(index, result.cycleTimes[index]);
+        });
+        this.renderLightControls();
+        this.saveScenarioToUrl();
+
+        const cycle = Math.max(...result.cycleTimes.filter((_, index) => !result.freeRunning.includes(index)));
+        const freeRunning = result.freeRunning.length > 0
+            ? `. Left out Light ${result.freeRunning.map(index => index + 1).join(', ')} (actuated or adaptive, ignores offsets)`
+            : '';
+        resultText.textContent =
+            `Green band per ${cycle}s cycle: eastbound ${result.eastboundBandwidth.toFixed(1)}s, ` +
+            `westbound ${result.westboundBandwidth.toFixed(1)}s${freeRunning}`;
+
+        if (!this.isRunning) this.draw();
+    }
+
+    private currentScenario(): Scenario {
+        const name = (document.getElementById('scenarioName') as HTMLInputElement).value.trim();
+        return createScenario(this.sim.getConfig(), name || undefined);
+    }
+
+    // Slider drags call this on every input event, so the write waits until
+    // the control has been still for a moment: browsers throttle or reject
+    // rapid replaceState calls. replaceState also keeps drags out of the back
+    // button history.
+    private saveScenarioToUrl(): void {
+        if (this.urlSaveTimer !== null) clearTimeout(this.urlSaveTimer);
+        this.urlSaveTimer = window.setTimeout(() => {
+            this.urlSaveTimer = null;
+            history.replaceState(null, '', scenarioToHash(this.currentScenario()));
+        }, this.URL_SAVE_DELAY);
+    }
+
+    private loadScenarioFromUrl(): void {
+        try {
+            const scenario = scenarioFromHash(window.location.hash);
+            if (scenario) this.applyScenario(scenario);
+        } catch (error) {
+            this.showScenarioStatus((error as Error).message);
         }
+    }
 
-        // Draw traffic lights and stop lines
-        this.lights.forEach(light => {
-            // Stop lines (white lines on road)
-            this.ctx.strokeStyle = '#fff';
-            this.ctx.lineWidth = 4;
-            this.ctx.setLineDash([]);
-            this.ctx.beginPath();
-            // Eastbound stop line (left side of light)
-            this.ctx.moveTo(light.x - 25, this.canvas.height / 2 - 60);
-            this.ctx.lineTo(light.x - 25, this.canvas.height / 2);
-            // Westbound stop line (right side of light)
-            this.ctx.moveTo(light.x + 25, this.canvas.height / 2);
-            this.ctx.lineTo(light.x + 25, this.canvas.height / 2 + 60);
-            this.ctx.stroke();
-
-            // Light pole (centered on road)
-            this.ctx.fillStyle = '#666';
-            this.ctx.fillRect(light.x - 5, this.canvas.height / 2 - 20, 10, 40);
-
-            // Light housing (above center of road)
-            this.ctx.fillStyle = '#333';
-            this.ctx.fillRect(light.x - 15, this.canvas.height / 2 - 30, 30, 20);
-
-            // Light (above center of road)
-            const lightColors = {
-                red: '#ff4444',
-                yellow: '#ffff44',
-                green: '#44ff44'
-            };
-            this.ctx.fillStyle = lightColors[light.currentState];
-            this.ctx.beginPath();
-            this.ctx.arc(light.x, this.canvas.height / 2 - 20, 8, 0, Math.PI * 2);
-            this.ctx.fill();
-        });
-
-        // Draw cars (minimum visible size for display, realistic size for physics)
-        this.cars.forEach(car => {
-            // Use minimum visible size for drawing (reasonable size)
-            const minCarLength = 32; // minimum 32 pixels for visibility
-            const minCarWidth = 16;  // minimum 16 pixels for visibility
-
-            const carLength = Math.max(15 * this.PIXELS_PER_FOOT, minCarLength);
-            const carWidth = Math.max(6 * this.PIXELS_PER_FOOT, minCarWidth);
-
-            this.ctx.fillStyle = car.hitRedLight ? '#ff8888' : car.color;
-            this.ctx.fillRect(car.x - carLength/2, car.y - carWidth/2, carLength, carWidth);
-
-            // Car details (windows) - only if car is big enough to see them
-            if (carLength > 8) {
-                this.ctx.fillStyle = '#fff';
-                const windowWidth = carLength * 0.25;
-                const windowHeight = carWidth * 0.4;
-                // Front window
-                this.ctx.fillRect(car.x - carLength/4, car.y - windowHeight/2, windowWidth, windowHeight);
-                // Rear window
-                this.ctx.fillRect(car.x + carLength/8, car.y - windowHeight/2, windowWidth, windowHeight);
-            }
+    private applyScenario(scenario: Scenario): void {
+        this.sim.applyConfig(scenario.config);
+        this.recorder.clear();
+        this.announcer.clear();
+        this.replayIndex = null;
+        (document.getElementById('scenarioName') as HTMLInputElement).value = scenario.name;
+        (document.getElementById('speedLimit') as HTMLInputElement).value = scenario.config.speedLimit.toString();
+        document.getElementById('speedLimitValue')!.textContent = scenario.config.speedLimit.toString();
+        (document.getElementById('lanesPerDirection') as HTMLInputElement).value = scenario.config.lanesPerDirection.toString();
+        document.getElementById('lanesPerDirectionValue')!.textContent = scenario.config.lanesPerDirection.toString();
+        this.syncDriverControls(scenario.config.driverModel);
+        this.syncDemandControls(scenario.config.demand);
+        this.renderLightControls();
+        this.draw();
+    }
+
+    // Save text as a file named after the scenario, e.g. "main-street-trips.csv"
+    private download(suffix: string, content: string, type: string): void {
+        const slug = this.currentScenario().name.replace(/[^a-z0-9]+/gi, '-').toLowerCase();
+        const blob = new Blob([content], { type });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = `${slug}${suffix}`;
+        link.click();
+        URL.revokeObjectURL(link.href);
+    }
+
+    private exportScenario(): void {
+        this.download('.json', scenarioToJson(this.currentScenario()), 'application/json');
+    }
+
+    private async importScenario(file: File): Promise<void> {
+        try {
+            const scenario = scenarioFromJson(await file.text());
+            this.applyScenario(scenario);
+            this.saveScenarioToUrl();
+            this.showScenarioStatus(`Loaded "${scenario.name}"`);
+        } catch (error) {
+            this.showScenarioStatus((error as Error).message);
+        }
+    }
+
+    private exportRecording(): void {
+        const json = recordingToJson({
+            version: RECORDING_VERSION,
+            scenario: this.currentScenario(),
+            stepsPerSecond: this.sim.STEPS_PER_SECOND,
+            frames: this.recorder.frames
         });
+        this.download('-recording.json', json, 'application/json');
+    }
+
+    // Load the recording's scenario so the road matches, then show its first frame
+    private async importRecording(file: File): Promise<void> {
+        try {
+            const recording = recordingFromJson(await file.text());
+            this.pause();
+            this.applyScenario(recording.scenario);
+            this.saveScenarioToUrl();
+            this.recorder.frames = recording.frames;
+            this.replayIndex = 0;
+            this.draw();
+            this.showScenarioStatus(`Loaded recording of "${recording.scenario.name}"`);
+        } catch (error) {
+            this.showScenarioStatus((error as Error).message);
+        }
+    }
 
-        // Statistics removed per user request
+    private showScenarioStatus(message: string): void {
+        document.getElementById('scenarioStatus')!.textContent = message;
+    }
+
+    private addLight(): void {
+        if (!this.sim.addLight()) return;
+        this.renderLightControls();
+        this.saveScenarioToUrl();
+        if (!this.isRunning) this.draw();
+    }
+
+    private removeLight(index: number): void {
+        if (!this.sim.removeLight(index)) return;
+        this.renderLightControls();
+        this.saveScenarioToUrl();
+        if (!this.isRunning) this.draw();
+    }
+
+    // Draws the live engine, or a recorded frame while scrubbing or replaying
+    private draw(): void {
+        const frame = this.replayIndex !== null ? this.recorder.frames[this.replayIndex] : captureFrame(this.sim);
+
+        drawFrame(this.ctx, this.sim, frame, this.renderOptions);
+        const highlight = this.tutorial?.script.steps[this.tutorial.step].highlight;
+        if (highlight) drawHighlights(this.ctx, frame, highlight);
+
+        const seconds = Math.floor(frame.time / this.sim.STEPS_PER_SECOND);
+        document.getElementById('simClock')!.textContent = `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+        const timeline = document.getElementById('timeline') as HTMLInputElement;
+        timeline.max = Math.max(0, this.recorder.frames.length - 1).toString();
+        timeline.value = (this.replayIndex ?? this.recorder.frames.length - 1).toString();
+
+        this.renderStats();
+        this.renderQueueStatus();
+        if (this.showDiagram) this.diagram.draw();
+        if (this.showComparison) {
+            this.comparison.follow(this.sim);
+            this.comparison.draw(this.sim, this.currentScenario().name, this.renderOptions);
+        }
+    }
+
+    // Animation loop: run as many fixed model steps as the elapsed wall-clock
+    // time calls for at the current playback speed, then draw once
+    private frame(now: number): void {
+        if (this.lastFrameTime !== null) {
+            const elapsedSeconds = (now - this.lastFrameTime) / 1000;
+            this.pendingSteps += elapsedSeconds * this.sim.STEPS_PER_SECOND * this.playbackSpeed;
+        }
+        this.lastFrameTime = now;
+
+        const steps = Math.min(Math.floor(this.pendingSteps), this.MAX_STEPS_PER_FRAME);
+        this.pendingSteps = Math.min(this.pendingSteps - steps, 1);
+        if (this.replayIndex !== null) {
+            this.advanceReplay(steps);
+        } else {
+            this.advance(steps);
+        }
+        this.draw();
 
         if (this.isRunning) {
-            this.animationId = requestAnimationFrame(() => {
-                this.update();
-                this.draw();
-            });
+            this.animationId = requestAnimationFrame(time => this.frame(time));
+        }
+    }
+
+    // Step the live engine, recording as it goes and passing events on to
+    // the announcer. Pane B is brought level first so any demand change
+    // reaches both runs at the same moment. A tutorial step pauses exactly
+    // when its time is up.
+    private advance(steps: number): void {
+        if (this.showComparison) this.comparison.follow(this.sim);
+        if (this.tutorialStopAt !== null) steps = Math.min(steps, Math.max(0, this.tutorialStopAt - this.sim.time));
+        for (let i = 0; i < steps; i++) {
+            this.sim.step();
+            this.recorder.capture(this.sim);
+        }
+        this.announcer.observe(this.sim, performance.now());
+        if (this.tutorialStopAt !== null && this.sim.time >= this.tutorialStopAt) {
+            this.tutorialStopAt = null;
+            this.pause();
         }
     }
 
+    // Move the replay along the recorded frames, stopping at the last one
+    private advanceReplay(steps: number): void {
+        const frames = this.recorder.frames;
+        this.replayTime += steps;
+        let index = this.replayIndex ?? 0;
+        while (index + 1 < frames.length && frames[index + 1].time <= this.replayTime) index++;
+        this.replayIndex = index;
+        if (index === frames.length - 1) this.pause();
+    }
+
+    // Play the recording from the timeline position (or from the start if at the end)
+    public replay(): void {
+        const frames = this.recorder.frames;
+        if (frames.length === 0) return;
+
+        this.pause();
+        const index = this.replayIndex ?? frames.length - 1;
+        this.replayIndex = index >= frames.length - 1 ? 0 : index;
+        this.replayTime = frames[this.replayIndex].time;
+        this.run();
+    }
+
+    // Go live: leave any replay and keep running the engine
     public start(): void {
+        this.replayIndex = null;
+        this.run();
+    }
+
+    private run(): void {
         if (!this.isRunning) {
             this.isRunning = true;
             (document.getElementById('startBtn') as HTMLButtonElement).disabled = true;
             (document.getElementById('pauseBtn') as HTMLButtonElement).disabled = false;
 
-            // Spawn initial cars immediately
-            this.spawnCars();
+            this.lastFrameTime = null;
+            this.pendingSteps = 0;
+            this.animationId = requestAnimationFrame(time => this.frame(time));
+        }
+    }
 
-            this.draw();
+    // Advance a single model step, pausing first so the result stays on screen
+    public stepOnce(): void {
+        this.pause();
+        if (this.replayIndex !== null) {
+            this.replayIndex = Math.min(this.replayIndex + 1, this.recorder.frames.length - 1);
+        } else {
+            this.advance(1);
+        }
+        this.draw();
+    }
+
+    // Jump ahead by a number of simulated seconds without drawing in between
+    public fastForward(seconds: number): void {
+        const steps = seconds * this.sim.STEPS_PER_SECOND;
+        if (this.replayIndex !== null) {
+            this.replayTime = this.recorder.frames[this.replayIndex].time;
+            this.advanceReplay(steps);
+        } else {
+            this.advance(steps);
         }
+        if (!this.isRunning) this.draw();
     }
 
     public pause(): void {
@@ -551,12 +980,23 @@ class TrafficSimulation {
 
     public reset(): void {
         this.pause();
-        this.initializeSimulation();
+        this.sim.reset();
+        this.recorder.clear();
+        this.announcer.clear();
+        this.replayIndex = null;
         this.draw();
     }
 }
 
+// Input types that take a click or a choice rather than typed text
+const NON_TEXT_INPUTS = ['checkbox', 'radio', 'range', 'color', 'file', 'button', 'submit', 'reset', 'image'];
+
+function isTextEntry(element: HTMLElement): boolean {
+    if (element.isContentEditable || element instanceof HTMLTextAreaElement) return true;
+    return element instanceof HTMLInputElement && !NON_TEXT_INPUTS.includes(element.type);
+}
+
 // Initialize the simulation when the page loads
 document.addEventListener('DOMContentLoaded', () => {
     new TrafficSimulation();
-});
\ No newline at end of file
+});
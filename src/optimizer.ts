@@ -0,0 +1,196 @@
+import { SimulationEngine } from './simulation';
+import { isProceedState, lightStateAt, PhasePlan, validatePhasePlan } from './signals';
+
+export type OptimizeTarget = 'eastbound' | 'westbound' | 'weighted';
+
+export interface OptimizeOptions {
+    target: OptimizeTarget;
+    eastboundWeight: number; // 0..1, only used for the weighted target
+    optimizeCycle: boolean; // also search a common cycle length for all lights
+}
+
+export interface OptimizeResult {
+    offsets: number[];
+    cycleTimes: number[];
+    eastboundBandwidth: number; // simulation seconds per cycle
+    westboundBandwidth: number;
+    freeRunning: number[]; // indexes of actuated or adaptive lights, left as they were
+}
+
+// Candidate common cycle lengths, matching the cycle slider range and step
+const CYCLE_CANDIDATES = [20, 25, 30, 35, 40, 45, 50, 55, 60];
+const SAMPLE_STEP = 0.5; // simulation seconds between departure samples
+const MAX_PASSES = 4;
+const SLICE_TIME = 30; // ms of searching before handing the page back to the browser
+
+// Only fixed-time lights follow their offsets, so only they are searched and
+// only they count towards the band. The arrays below hold those lights alone.
+interface Corridor {
+    lights: number[]; // index of each fixed-time light in the engine
+    eastboundTravel: number[]; // seconds from the first light to each light
+    westboundTravel: number[]; // seconds from the last light to each light
+    phasePlans: PhasePlan[];
+}
+
+function buildCorridor(sim: SimulationEngine): Corridor {
+    const first = sim.lights[0].x;
+    const last = sim.lights[sim.lights.length - 1].x;
+    const lights = sim.lights.map((_, index) => index).filter(index => sim.controllerTypes[index] === 'fixed');
+    return {
+        lights,
+        eastboundTravel: lights.map(index => sim.simTravelTimeSeconds(first, sim.lights[index].x)),
+        westboundTravel: lights.map(index => sim.simTravelTimeSeconds(last, sim.lights[index].x)),
+        phasePlans: lights.map(index => sim.phasePlans[index])
+    };
+}
+
+// Longest run of departure times (in seconds) for which a car travelling at
+// the speed limit reaches every light on green or yellow
+function bandwidth(travel: number[], offsets: number[], cycleTimes: number[], phasePlans: PhasePlan[]): number {
+    const horizon = Math.max(...cycleTimes);
+    const periodic = cycleTimes.every(cycle => cycle === horizon);
+    const samples = Math.round(horizon / SAMPLE_STEP);
+
+    const clears: boolean[] = [];
+    for (let s = 0; s < samples; s++) {
+        const departure = s * SAMPLE_STEP;
+        clears.push(travel.every((t, i) => isProceedState(lightStateAt(departure + t, offsets[i], cycleTimes[i], phasePlans[i]))));
+    }
+
+    if (clears.every(Boolean)) return horizon;
+
+    // Walk twice round the cycle so runs that wrap past zero are counted whole
+    let best = 0;
+    let run = 0;
+    const length = periodic ? samples * 2 : samples;
+    for (let s = 0; s < length; s++) {
+        run = clears[s % samples] ? run + 1 : 0;
+        best = Math.max(best, run);
+    }
+    return Math.min(best, samples) * SAMPLE_STEP;
+}
+
+function objective(corridor: Corridor, offsets: number[], cycleTimes: number[], options: OptimizeOptions): number {
+    const east = bandwidth(corridor.eastboundTravel, offsets, cycleTimes, corridor.phasePlans);
+    const west = bandwidth(corridor.westboundTravel, offsets, cycleTimes, corridor.phasePlans);
+    switch (options.target) {
+        case 'eastbound':
+            return east;
+        case 'westbound':
+            return west;
+        case 'weighted':
+            return options.eastboundWeight * east + (1 - options.eastboundWeight) * west;
+    }
+}
+
+// Resolves straight away until SLICE_TIME has passed since the last break,
+// then after a zero-delay timeout so the page can repaint and take input
+function createPause(): () => Promise<void> {
+    let sliceStart = performance.now();
+    return async () => {
+        if (performance.now() - sliceStart < SLICE_TIME) return;
+        await new Promise(resolve => setTimeout(resolve, 0));
+        sliceStart = performance.now();
+    };
+}
+
+// Coordinate descent over integer offsets, starting from the given offsets
+async function searchOffsets(
+    corridor: Corridor,
+    start: number[],
+    cycleTimes: number[],
+    options: OptimizeOptions,
+    pause: () => Promise<void>
+): Promise<{ offsets: number[]; score: number }> {
+    const offsets = [...start];
+    let score = objective(corridor, offsets, cycleTimes, options);
+
+    for (let pass = 0; pass < MAX_PASSES; pass++) {
+        let improved = false;
+        for (let i = 0; i < offsets.length; i++) {
+            for (let candidate = 0; candidate < cycleTimes[i]; candidate++) {
+                if (candidate === offsets[i]) continue;
+                await pause();
+                const trial = [...offsets];
+                trial[i] = candidate;
+                const trialScore = objective(corridor, trial, cycleTimes, options);
+                if (trialScore > score) {
+                    offsets[i] = candidate;
+                    score = trialScore;
+                    improved = true;
+                }
+            }
+        }
+        if (!improved) break;
+    }
+
+    return { offsets, score };
+}
+
+// Ideal one-way green wave: each light turns green when a car from the end light arrives
+function waveOffsets(travel: number[], cycleTimes: number[]): number[] {
+    return travel.map((t, i) => Math.round(t) % cycleTimes[i]);
+}
+
+// Searching every common cycle on a long corridor takes a second or more, so
+// the search runs in short slices between browser tasks. The engine is read
+// once at the start; onProgress gets the fraction done (0..1). Rejects if no
+// light runs fixed-time, since there is then nothing to coordinate.
+export async function optimizeOffsets(
+    sim: SimulationEngine,
+    options: OptimizeOptions,
+    onProgress?: (fraction: number) => void
+): Promise<OptimizeResult> {
+    const corridor = buildCorridor(sim);
+    if (corridor.lights.length === 0) {
+        throw new Error('Every light is actuated or adaptive and ignores offsets; set some to fixed-time to optimize');
+    }
+    const allOffsets = [...sim.lightOffsets];
+    const allCycleTimes = [...sim.lightCycleTimes];
+    const currentOffsets = corridor.lights.map(index => allOffsets[index]);
+    const currentCycles = corridor.lights.map(index => allCycleTimes[index]);
+    const freeRunning = sim.lights.map((_, index) => index).filter(index => !corridor.lights.includes(index));
+
+    // Only consider common cycles that every light's phase plan fits into
+    const cycleOptions = options.optimizeCycle
+        ? CYCLE_CANDIDATES
+            .filter(cycle => corridor.phasePlans.every(plan => validatePhasePlan(plan, cycle) === null))
+            .map(cycle => corridor.lights.map(() => cycle))
+        : [currentCycles];
+    if (cycleOptions.length === 0) cycleOptions.push(currentCycles);
+
+    let best: { offsets: number[]; cycleTimes: number[]; score: number } | null = null;
+    const pause = createPause();
+    const searches = cycleOptions.length * 3; // three starting points per cycle
+    let done = 0;
+
+    for (const cycleTimes of cycleOptions) {
+        const starts = [
+            currentOffsets.map((offset, i) => Math.round(offset) % cycleTimes[i]),
+            waveOffsets(corridor.eastboundTravel, cycleTimes),
+            waveOffsets(corridor.westboundTravel, cycleTimes)
+        ];
+
+        for (const start of starts) {
+            const result = await searchOffsets(corridor, start, cycleTimes, options, pause);
+            if (!best || result.score > best.score) {
+                best = { ...result, cycleTimes };
+            }
+            onProgress?.(++done / searches);
+        }
+    }
+
+    // Put the fixed-time results back among the free-running lights' own settings
+    const { offsets, cycleTimes } = best!;
+    corridor.lights.forEach((index, i) => {
+        allOffsets[index] = offsets[i];
+        allCycleTimes[index] = cycleTimes[i];
+    });
+    return {
+        offsets: allOffsets,
+        cycleTimes: allCycleTimes,
+        eastboundBandwidth: bandwidth(corridor.eastboundTravel, offsets, cycleTimes, corridor.phasePlans),
+        westboundBandwidth: bandwidth(corridor.westboundTravel, offsets, cycleTimes, corridor.phasePlans),
+        freeRunning
+    };
+}
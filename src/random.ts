@@ -0,0 +1,18 @@
+// Small seedable PRNG (mulberry32) so simulation runs are reproducible.
+// Returns a function producing floats in [0, 1).
+export function createRng(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Independent generator for one part of the model, so drawing more or fewer
+// numbers in one place leaves the others' sequences unchanged
+export function createStream(seed: number, stream: number): () => number {
+    return createRng(Math.imul(seed, 0x9E3779B1) ^ Math.imul(stream, 0x85EBCA6B));
+}
@@ -0,0 +1,198 @@
+import { ApproachQueue, DirectionKey, SimulationEngine } from './simulation';
+import { CrossState, LightState } from './signals';
+import { parseScenario, Scenario } from './scenario';
+
+// Recordings of a run: light states and vehicle positions sampled at a fixed
+// interval, so a paused run can be scrubbed and a saved one replayed.
+
+export const RECORDING_VERSION = 1;
+
+export interface LightSnapshot {
+    x: number;
+    currentState: LightState;
+    crossState: CrossState;
+    leftTurnState: CrossState;
+    hasLeftTurnBay: boolean;
+    queues?: Record<DirectionKey, QueueSnapshot>; // missing from recordings made before queues were measured
+}
+
+export interface QueueSnapshot {
+    vehicles: number;
+    length: number; // pixels back from the stop line
+    spillback: boolean;
+}
+
+export interface CarSnapshot {
+    id: number;
+    x: number;
+    y: number;
+    direction: 1 | -1;
+    color: string;
+    hitRedLight: boolean;
+    ranRedLight: boolean;
+    turning: boolean;
+    stopped?: boolean; // halted right now; missing from recordings made before it was captured
+}
+
+export interface CrossCarSnapshot {
+    x: number;
+    y: number;
+    stopped: boolean; // has stopped at least once
+}
+
+export interface FrameSnapshot {
+    time: number; // steps since reset
+    lights: LightSnapshot[];
+    cars: CarSnapshot[];
+    crossCars: CrossCarSnapshot[];
+}
+
+export interface Recording {
+    version: number;
+    scenario: Scenario;
+    stepsPerSecond: number;
+    frames: FrameSnapshot[];
+}
+
+// Positions are kept to a tenth of a pixel to keep exported files small
+const round = (value: number) => Math.round(value * 10) / 10;
+
+function queueSnapshot(queue: ApproachQueue): QueueSnapshot {
+    return { vehicles: queue.vehicles, length: round(queue.length), spillback: queue.spillback };
+}
+
+export function captureFrame(sim: SimulationEngine): FrameSnapshot {
+    return {
+        time: sim.time,
+        lights: sim.lights.map((light, index) => ({
+            x: round(light.x),
+            currentState: light.currentState,
+            crossState: light.crossState,
+            leftTurnState: light.leftTurnState,
+            hasLeftTurnBay: sim.hasLeftTurnBay(index),
+            queues: {
+                eastbound: queueSnapshot(light.queues.eastbound),
+                westbound: queueSnapshot(light.queues.westbound)
+            }
+        })),
+        cars: sim.cars.map(car => ({
+            id: car.id,
+            x: round(car.x),
+            y: round(car.y),
+            direction: car.direction,
+            color: car.color,
+            hitRedLight: car.hitRedLight,
+            ranRedLight: car.ranRedLight,
+            turning: car.turnAt !== null,
+            stopped: car.isStopped
+        })),
+        crossCars: sim.crossTraffic.cars.map(car => ({
+            x: round(car.x),
+            y: round(car.y),
+            stopped: car.stops > 0
+        }))
+    };
+}
+
+// Samples the engine every few steps, keeping the most recent frames
+export class Recorder {
+    frames: FrameSnapshot[] = [];
+    readonly INTERVAL = 6; // steps between frames (a tenth of a simulated second)
+    readonly MAX_FRAMES = 6000; // ten simulated minutes
+
+    // Call after every engine step. A clock that went backwards means the
+    // engine was reset, so the old run is dropped.
+    capture(sim: SimulationEngine): void {
+        if (sim.time % this.INTERVAL !== 0) return;
+        const last = this.frames[this.frames.length - 1];
+        if (last && sim.time <= last.time) this.clear();
+        this.frames.push(captureFrame(sim));
+        if (this.frames.length > this.MAX_FRAMES) this.frames.shift();
+    }
+
+    clear(): void {
+        this.frames = [];
+    }
+}
+
+export function recordingToJson(recording: Recording): string {
+    return JSON.stringify(recording);
+}
+
+const LIGHT_STATES: unknown[] = ['red', 'yellow', 'green', 'all-red'];
+const CROSS_STATES: unknown[] = ['red', 'yellow', 'green'];
+
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+function queueValid(value: unknown): boolean {
+    return isRecord(value) && isNumber(value.vehicles) && isNumber(value.length) && typeof value.spillback === 'boolean';
+}
+
+// Checks every field the renderer reads, so a bad file is turned away on
+// import rather than failing on each frame of the replay. Returns an error
+// message, or null if the frame is usable.
+function frameError(frame: unknown): string | null {
+    if (!isRecord(frame) || !isNumber(frame.time)) return 'missing its time';
+    if (!Array.isArray(frame.lights) || !Array.isArray(frame.cars) || !Array.isArray(frame.crossCars)) {
+        return 'needs lights, cars and crossCars lists';
+    }
+
+    const badLight = frame.lights.findIndex((light: unknown) =>
+        !isRecord(light) || !isNumber(light.x) ||
+        !LIGHT_STATES.includes(light.currentState) ||
+        !CROSS_STATES.includes(light.crossState) || !CROSS_STATES.includes(light.leftTurnState) ||
+        typeof light.hasLeftTurnBay !== 'boolean' ||
+        (light.queues !== undefined && !(isRecord(light.queues) && queueValid(light.queues.eastbound) && queueValid(light.queues.westbound)))
+    );
+    if (badLight !== -1) return `light ${badLight + 1} is missing its position or signal states`;
+
+    const badCar = frame.cars.findIndex((car: unknown) =>
+        !isRecord(car) || !isNumber(car.id) || !isNumber(car.x) || !isNumber(car.y) ||
+        (car.direction !== 1 && car.direction !== -1) || typeof car.color !== 'string' ||
+        typeof car.hitRedLight !== 'boolean' || typeof car.ranRedLight !== 'boolean' || typeof car.turning !== 'boolean' ||
+        (car.stopped !== undefined && typeof car.stopped !== 'boolean')
+    );
+    if (badCar !== -1) return `car ${badCar + 1} is missing its position, direction or status`;
+
+    const badCrossCar = frame.crossCars.findIndex((car: unknown) =>
+        !isRecord(car) || !isNumber(car.x) || !isNumber(car.y) || typeof car.stopped !== 'boolean'
+    );
+    if (badCrossCar !== -1) return `cross-street car ${badCrossCar + 1} is missing its position or status`;
+
+    return null;
+}
+
+export function recordingFromJson(json: string): Recording {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('Recording file is not valid JSON');
+    }
+    if (typeof data !== 'object' || data === null) {
+        throw new Error('Recording must be a JSON object');
+    }
+
+    const raw = data as Record<string, unknown>;
+    if (raw.version !== RECORDING_VERSION) {
+        throw new Error(`Unsupported recording version: ${String(raw.version)}`);
+    }
+    if (typeof raw.stepsPerSecond !== 'number' || raw.stepsPerSecond <= 0) {
+        throw new Error('Recording is missing its time base');
+    }
+    if (!Array.isArray(raw.frames) || raw.frames.length === 0) {
+        throw new Error('Recording has no frames');
+    }
+    raw.frames.forEach((frame: unknown, index) => {
+        const error = frameError(frame);
+        if (error) throw new Error(`Recording frame ${index + 1}: ${error}`);
+    });
+
+    return {
+        version: RECORDING_VERSION,
+        scenario: parseScenario(raw.scenario),
+        stepsPerSecond: raw.stepsPerSecond,
+        frames: raw.frames as FrameSnapshot[]
+    };
+}
@@ -0,0 +1,374 @@
+import { directionKey, SimulationEngine } from './simulation';
+import { CrossState, LightState } from './signals';
+import { FrameSnapshot } from './recording';
+import { CROSS_CAR_LENGTH } from './crossStreets';
+import { TutorialHighlight } from './tutorial';
+
+export interface RenderOptions {
+    colorBlindSafe: boolean; // give signal states and stopped cars shapes and labels as well as colours
+}
+
+const DEFAULT_RENDER_OPTIONS: RenderOptions = { colorBlindSafe: false };
+
+// Letters drawn inside signal shapes in color-blind-safe mode
+const SIGNAL_LABELS: Record<LightState, string> = {
+    red: 'R',
+    yellow: 'Y',
+    green: 'G',
+    'all-red': 'AR'
+};
+
+// A signal indication as a shape that reads without colour: square for red,
+// triangle for yellow, circle for green
+function drawSignalShape(ctx: CanvasRenderingContext2D, x: number, y: number, radius: number, state: LightState, color: string, label: boolean): void {
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    if (state === 'green') {
+        ctx.arc(x, y, radius, 0, Math.PI * 2);
+    } else if (state === 'yellow') {
+        ctx.moveTo(x, y - radius);
+        ctx.lineTo(x + radius, y + radius * 0.8);
+        ctx.lineTo(x - radius, y + radius * 0.8);
+        ctx.closePath();
+    } else {
+        ctx.rect(x - radius * 0.85, y - radius * 0.85, radius * 1.7, radius * 1.7);
+    }
+    ctx.fill();
+
+    if (!label) return;
+    ctx.fillStyle = state === 'all-red' ? '#fff' : '#000';
+    ctx.font = `bold ${state === 'all-red' ? 7 : 9}px Arial`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(SIGNAL_LABELS[state], x, y + (state === 'yellow' ? 2 : 0));
+    ctx.textBaseline = 'alphabetic';
+}
+
+// Draws one frame of the corridor: road, signals and vehicles. Geometry that
+// does not change from frame to frame (lanes, bays, speed zones) is read from
+// the engine.
+export function drawFrame(ctx: CanvasRenderingContext2D, sim: SimulationEngine, frame: FrameSnapshot, options: RenderOptions = DEFAULT_RENDER_OPTIONS): void {
+    const safe = options.colorBlindSafe;
+
+    // Clear canvas
+    ctx.fillStyle = '#222';
+    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+
+    // Draw side streets crossing at each light
+    ctx.fillStyle = '#3a3a3a';
+    frame.lights.forEach(light => {
+        ctx.fillRect(light.x - 20, 0, 40, ctx.canvas.height);
+    });
+
+    // Draw road
+    const roadHalfWidth = sim.roadHalfWidth;
+    ctx.fillStyle = '#444';
+    ctx.fillRect(0, ctx.canvas.height / 2 - roadHalfWidth, ctx.canvas.width, roadHalfWidth * 2);
+
+    // Painted median beside the centre line, opened up into a bay before each light that has one
+    if (sim.hasAnyBay) {
+        const laneWidth = sim.LANE_WIDTH;
+        ctx.fillStyle = '#555';
+        ctx.fillRect(0, ctx.canvas.height / 2 - laneWidth, ctx.canvas.width, laneWidth * 2);
+        ctx.fillStyle = '#444';
+        frame.lights.forEach(light => {
+            if (!light.hasLeftTurnBay) return;
+            ctx.fillRect(light.x - 25 - sim.BAY_LENGTH, ctx.canvas.height / 2 - laneWidth, sim.BAY_LENGTH, laneWidth);
+            ctx.fillRect(light.x + 25, ctx.canvas.height / 2, sim.BAY_LENGTH, laneWidth);
+        });
+    }
+
+    // Lane lines between through lanes
+    ctx.strokeStyle = '#ccc';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([15, 15]);
+    ctx.beginPath();
+    for (let lane = 0; lane < sim.lanesPerDirection - 1; lane++) {
+        ([1, -1] as const).forEach(direction => {
+            const y = (sim.laneY(direction, lane) + sim.laneY(direction, lane + 1)) / 2;
+            ctx.moveTo(0, y);
+            ctx.lineTo(ctx.canvas.width, y);
+        });
+    }
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // Draw center line
+    ctx.strokeStyle = '#ffff00';
+    ctx.setLineDash([20, 10]);
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(0, ctx.canvas.height / 2);
+    ctx.lineTo(ctx.canvas.width, ctx.canvas.height / 2);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // Draw distance lines between lights
+    if (frame.lights.length >= 2) {
+        ctx.strokeStyle = '#888';
+        ctx.lineWidth = 2;
+        ctx.setLineDash([5, 5]);
+
+        for (let i = 0; i < frame.lights.length - 1; i++) {
+            const light1 = frame.lights[i];
+            const light2 = frame.lights[i + 1];
+
+            // Draw line between lights above the road
+            ctx.beginPath();
+            ctx.moveTo(light1.x, ctx.canvas.height / 2 - roadHalfWidth - 50);
+            ctx.lineTo(light2.x, ctx.canvas.height / 2 - roadHalfWidth - 50);
+            ctx.stroke();
+
+            // Calculate and display distance and travel time
+            const distance = Math.abs(light2.x - light1.x);
+            const distanceInFeet = distance / sim.PIXELS_PER_FOOT;
+            const distanceInMiles = distanceInFeet / 5280;
+            const simTravelTimeSeconds = sim.simTravelTimeSeconds(light1.x, light2.x);
+            const mixedLimits = sim.speedZones.some(zone => {
+                const x = sim.positionToX(zone.start);
+                return x > light1.x && x < light2.x;
+            });
+            const limitText = mixedLimits ? 'posted limits' : `${sim.speedLimitAt((light1.x + light2.x) / 2)}mph`;
+
+            ctx.fillStyle = '#fff';
+            ctx.font = '12px Arial';
+            ctx.textAlign = 'center';
+
+            // Display distance in miles with appropriate precision
+            let distanceText;
+            if (distanceInMiles >= 1) {
+                distanceText = `${distanceInMiles.toFixed(1)} mi`;
+            } else {
+                const fraction = distanceInMiles;
+                if (fraction > 0.75) distanceText = "3/4 mi";
+                else if (fraction > 0.66) distanceText = "2/3 mi";
+                else if (fraction > 0.5) distanceText = "1/2 mi";
+                else if (fraction > 0.33) distanceText = "1/3 mi";
+                else if (fraction > 0.25) distanceText = "1/4 mi";
+                else distanceText = `${(fraction * 5280).toFixed(0)} ft`;
+            }
+
+            ctx.fillText(
+                distanceText,
+                (light1.x + light2.x) / 2,
+                ctx.canvas.height / 2 - roadHalfWidth - 60
+            );
+            ctx.fillText(
+                `${simTravelTimeSeconds.toFixed(1)}s @ ${limitText}`,
+                (light1.x + light2.x) / 2,
+                ctx.canvas.height / 2 - roadHalfWidth - 48
+            );
+        }
+        ctx.setLineDash([]);
+    }
+
+    // Speed limit signs where each zone begins, below the road
+    sim.speedZones.forEach(zone => {
+        const x = sim.positionToX(zone.start) - 50;
+        const y = ctx.canvas.height / 2 + roadHalfWidth + 8;
+        ctx.fillStyle = '#fff';
+        ctx.fillRect(x - 12, y, 24, 30);
+        ctx.strokeStyle = '#000';
+        ctx.lineWidth = 1;
+        ctx.strokeRect(x - 10, y + 2, 20, 26);
+        ctx.fillStyle = '#000';
+        ctx.textAlign = 'center';
+        ctx.font = '7px Arial';
+        ctx.fillText('LIMIT', x, y + 10);
+        ctx.font = 'bold 11px Arial';
+        ctx.fillText(zone.speedLimit.toString(), x, y + 23);
+    });
+
+    // Draw traffic lights and stop lines
+    frame.lights.forEach(light => {
+        // Stop lines (white lines on road)
+        ctx.strokeStyle = '#fff';
+        ctx.lineWidth = 4;
+        ctx.setLineDash([]);
+        ctx.beginPath();
+        // Eastbound stop line (left side of light)
+        ctx.moveTo(light.x - 25, ctx.canvas.height / 2 - roadHalfWidth);
+        ctx.lineTo(light.x - 25, ctx.canvas.height / 2);
+        // Westbound stop line (right side of light)
+        ctx.moveTo(light.x + 25, ctx.canvas.height / 2);
+        ctx.lineTo(light.x + 25, ctx.canvas.height / 2 + roadHalfWidth);
+        ctx.stroke();
+
+        // Light pole (centered on road)
+        ctx.fillStyle = '#666';
+        ctx.fillRect(light.x - 5, ctx.canvas.height / 2 - 20, 10, 40);
+
+        // Light housing (above center of road)
+        ctx.fillStyle = '#333';
+        ctx.fillRect(light.x - 15, ctx.canvas.height / 2 - 30, 30, 20);
+
+        // Light (above center of road)
+        const lightColors: Record<LightState, string> = {
+            red: '#ff4444',
+            yellow: '#ffff44',
+            green: '#44ff44',
+            'all-red': '#aa2222'
+        };
+        if (safe) {
+            drawSignalShape(ctx, light.x, ctx.canvas.height / 2 - 20, 8, light.currentState, lightColors[light.currentState], true);
+        } else {
+            ctx.fillStyle = lightColors[light.currentState];
+            ctx.beginPath();
+            ctx.arc(light.x, ctx.canvas.height / 2 - 20, 8, 0, Math.PI * 2);
+            ctx.fill();
+        }
+
+        const crossColors: Record<CrossState, string> = {
+            red: '#ff4444',
+            yellow: '#ffff44',
+            green: '#44ff44'
+        };
+
+        // Left-turn arrow beside the main head
+        if (light.hasLeftTurnBay) {
+            ctx.fillStyle = '#333';
+            ctx.fillRect(light.x + 15, ctx.canvas.height / 2 - 28, 16, 16);
+            if (safe) drawSignalShape(ctx, light.x + 23, ctx.canvas.height / 2 - 20, 7, light.leftTurnState, crossColors[light.leftTurnState], false);
+            ctx.fillStyle = safe ? '#000' : crossColors[light.leftTurnState];
+            ctx.font = 'bold 12px Arial';
+            ctx.textAlign = 'center';
+            ctx.fillText('\u2190', light.x + 23, ctx.canvas.height / 2 - 16);
+        }
+
+        // Side-street stop lines and signal heads
+        ctx.strokeStyle = '#fff';
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        ctx.moveTo(light.x - 20, sim.crossTraffic.stopLineY(1));
+        ctx.lineTo(light.x, sim.crossTraffic.stopLineY(1));
+        ctx.moveTo(light.x, sim.crossTraffic.stopLineY(-1));
+        ctx.lineTo(light.x + 20, sim.crossTraffic.stopLineY(-1));
+        ctx.stroke();
+        [-1, 1].forEach(side => {
+            const y = ctx.canvas.height / 2 + side * (roadHalfWidth + 15);
+            ctx.fillStyle = '#333';
+            ctx.fillRect(light.x + side * 30 - 7, y - 7, 14, 14);
+            if (safe) {
+                drawSignalShape(ctx, light.x + side * 30, y, 6, light.crossState, crossColors[light.crossState], false);
+                return;
+            }
+            ctx.fillStyle = crossColors[light.crossState];
+            ctx.beginPath();
+            ctx.arc(light.x + side * 30, y, 5, 0, Math.PI * 2);
+            ctx.fill();
+        });
+    });
+
+    // Queues as bars along the kerb, back from each stop line; red where a
+    // queue has reached the intersection upstream
+    frame.lights.forEach(light => {
+        if (!light.queues) return;
+        ([1, -1] as const).forEach(direction => {
+            const queue = light.queues![directionKey(direction)];
+            if (queue.vehicles === 0) return;
+            const stopLine = light.x - direction * 25;
+            const tail = stopLine - direction * queue.length;
+            const y = ctx.canvas.height / 2 - direction * (roadHalfWidth - 3);
+            ctx.fillStyle = queue.spillback ? '#ff3333' : '#ff9900';
+            ctx.fillRect(Math.min(stopLine, tail), y - 2, queue.length, 4);
+            ctx.font = '10px Arial';
+            ctx.textAlign = 'center';
+            // A "!" marks spillback where the bar colour alone would not
+            const count = safe && queue.spillback ? `${queue.vehicles}!` : queue.vehicles.toString();
+            ctx.fillText(count, tail - direction * 8, y + 4);
+        });
+    });
+
+    // Draw side-street cars (travelling vertically)
+    frame.crossCars.forEach(car => {
+        const carWidth = 12;
+        ctx.fillStyle = car.stopped ? '#88ccaa' : '#22aa77';
+        ctx.fillRect(car.x - carWidth / 2, car.y - CROSS_CAR_LENGTH / 2, carWidth, CROSS_CAR_LENGTH);
+        if (safe && car.stopped) {
+            ctx.strokeStyle = '#fff';
+            ctx.lineWidth = 2;
+            ctx.strokeRect(car.x - carWidth / 2, car.y - CROSS_CAR_LENGTH / 2, carWidth, CROSS_CAR_LENGTH);
+        }
+    });
+
+    // Draw cars (minimum visible size for display, realistic size for physics)
+    frame.cars.forEach(car => {
+        // Use minimum visible size for drawing (reasonable size)
+        const minCarLength = 32; // minimum 32 pixels for visibility
+        const minCarWidth = 16;  // minimum 16 pixels for visibility
+
+        const carLength = Math.max(sim.carLength, minCarLength);
+        const carWidth = Math.max(6 * sim.PIXELS_PER_FOOT, minCarWidth);
+
+        ctx.fillStyle = car.hitRedLight && !safe ? '#ff8888' : car.color;
+        ctx.fillRect(car.x - carLength/2, car.y - carWidth/2, carLength, carWidth);
+
+        // Left-turn signal on the front corner nearest the centre line
+        if (car.turning) {
+            ctx.fillStyle = '#ffaa00';
+            ctx.fillRect(car.x + car.direction * (carLength / 2 - 5) - 2.5, car.y + car.direction * carWidth / 2 - 2.5 - car.direction * 2.5, 5, 5);
+        }
+
+        // Without the pink recolour, cars that met a red get a dashed outline
+        if (safe && car.hitRedLight && !car.ranRedLight) {
+            ctx.strokeStyle = '#fff';
+            ctx.lineWidth = 2;
+            ctx.setLineDash([4, 3]);
+            ctx.strokeRect(car.x - carLength/2, car.y - carWidth/2, carLength, carWidth);
+            ctx.setLineDash([]);
+        }
+
+        // Red-light runners get a bright outline
+        if (car.ranRedLight) {
+            ctx.strokeStyle = safe ? '#fff' : '#ff0000';
+            ctx.lineWidth = 3;
+            ctx.strokeRect(car.x - carLength/2, car.y - carWidth/2, carLength, carWidth);
+        }
+
+        // Car details (windows) - only if car is big enough to see them
+        if (carLength > 8) {
+            ctx.fillStyle = '#fff';
+            const windowWidth = carLength * 0.25;
+            const windowHeight = carWidth * 0.4;
+            // Front window
+            ctx.fillRect(car.x - carLength/4, car.y - windowHeight/2, windowWidth, windowHeight);
+            // Rear window
+            ctx.fillRect(car.x + carLength/8, car.y - windowHeight/2, windowWidth, windowHeight);
+        }
+
+        // Stopped cars are labelled rather than left to be spotted by eye
+        if (safe && car.stopped) {
+            ctx.fillStyle = '#000';
+            ctx.fillRect(car.x - 14, car.y - 6, 28, 12);
+            ctx.fillStyle = '#fff';
+            ctx.font = 'bold 9px Arial';
+            ctx.textAlign = 'center';
+            ctx.fillText('STOP', car.x, car.y + 3);
+        }
+    });
+}
+
+// Rings round the lights and outlines round the cars a tutorial step points
+// at, drawn over a finished frame
+export function drawHighlights(ctx: CanvasRenderingContext2D, frame: FrameSnapshot, highlight: TutorialHighlight): void {
+    ctx.strokeStyle = '#00e5ff';
+    ctx.lineWidth = 3;
+    ctx.setLineDash([6, 4]);
+
+    (highlight.lights ?? []).forEach(number => {
+        const light = frame.lights[number - 1];
+        if (!light) return;
+        ctx.beginPath();
+        ctx.arc(light.x, ctx.canvas.height / 2 - 20, 26, 0, Math.PI * 2);
+        ctx.stroke();
+    });
+
+    const cars = new Set(highlight.cars ?? []);
+    const directions = highlight.directions ?? [];
+    frame.cars.forEach(car => {
+        if (!cars.has(car.id) && !directions.includes(directionKey(car.direction))) return;
+        ctx.strokeRect(car.x - 20, car.y - 12, 40, 24);
+    });
+
+    ctx.setLineDash([]);
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG, SimulationConfig } from './simulation';
+import { createScenario, parseScenario } from './scenario';
+import { DEFAULT_PHASE_PLAN } from './signals';
+
+// A default scenario with some of its config replaced, as a loaded file
+// would give it
+function withConfig(config: Record<string, unknown>): unknown {
+    return { ...createScenario(DEFAULT_CONFIG), config: { ...DEFAULT_CONFIG, ...config } };
+}
+
+describe('parseScenario', () => {
+    it('accepts the default scenario', () => {
+        expect(parseScenario(withConfig({})).config).toEqual(DEFAULT_CONFIG);
+    });
+
+    it.each<[string, Partial<Record<keyof SimulationConfig, unknown>>]>([
+        ['a speed zone start given as a string', { speedZones: [{ start: '50', speedLimit: 45 }] }],
+        ['a NaN speed zone limit', { speedZones: [{ start: 50, speedLimit: NaN }] }],
+        ['a phase plan split given as a string', { phasePlans: DEFAULT_CONFIG.phasePlans.map(plan => ({ ...plan, greenSplit: '0.5' })) }],
+        ['a NaN yellow time', { phasePlans: DEFAULT_CONFIG.phasePlans.map(() => ({ ...DEFAULT_PHASE_PLAN, yellowTime: NaN })) }],
+        ['a driver acceleration given as a string', { driverModel: { ...DEFAULT_CONFIG.driverModel, acceleration: '60' } }],
+        ['a NaN aggressive share', { driverModel: { ...DEFAULT_CONFIG.driverModel, aggressiveShare: NaN } }],
+        ['a NaN cautious reaction time', {
+            driverModel: { ...DEFAULT_CONFIG.driverModel, cautious: { ...DEFAULT_CONFIG.driverModel.cautious, reactionTime: NaN } }
+        }],
+        ['an aggressive red grace given as a string', {
+            driverModel: { ...DEFAULT_CONFIG.driverModel, aggressive: { ...DEFAULT_CONFIG.driverModel.aggressive, redGrace: '1.5' } }
+        }],
+        ['a volume given as a string', { demand: { ...DEFAULT_CONFIG.demand, eastboundVolume: '1200' } }],
+        ['a NaN platoon size', { demand: { ...DEFAULT_CONFIG.demand, platoonSize: NaN } }],
+        ['a NaN left-turn share', { demand: { ...DEFAULT_CONFIG.demand, leftTurnShare: NaN } }],
+        ['a NaN speed limit', { speedLimit: NaN }]
+    ])('rejects %s', (_name, config) => {
+        expect(() => parseScenario(withConfig(config))).toThrow();
+    });
+});
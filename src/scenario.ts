@@ -0,0 +1,241 @@
+import { DEFAULT_CONFIG, DEFAULT_CROSS_VOLUME, MAX_LANES, MAX_LIGHTS, MIN_LIGHTS, SimulationConfig } from './simulation';
+import { DEFAULT_PHASE_PLAN, validatePhasePlan } from './signals';
+import { DEFAULT_DRIVER_MODEL } from './driverModel';
+import { DEFAULT_DEMAND } from './demand';
+import { CONTROLLER_TYPES } from './controllers';
+
+// Bump when a saved scenario can no longer be read as-is; older versions are
+// migrated in parseScenario.
+export const SCENARIO_VERSION = 1;
+
+export interface Scenario {
+    version: number;
+    name: string;
+    config: SimulationConfig;
+}
+
+const HASH_KEY = 's';
+
+export function createScenario(config: SimulationConfig, name: string = 'Untitled corridor'): Scenario {
+    return { version: SCENARIO_VERSION, name, config };
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+export function isNumberArray(value: unknown): value is number[] {
+    return Array.isArray(value) && value.every(isFiniteNumber);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Every named field holds a finite number. Range checks compare with < and
+// >, which a string like "50" or NaN can slip past.
+function hasNumbers(record: object, keys: string[]): boolean {
+    return keys.every(key => isFiniteNumber((record as Record<string, unknown>)[key]));
+}
+
+// Validate untrusted input (a parsed JSON file or URL hash) and return a
+// complete scenario. Missing config fields fall back to the defaults.
+export function parseScenario(data: unknown): Scenario {
+    if (typeof data !== 'object' || data === null) {
+        throw new Error('Scenario must be a JSON object');
+    }
+
+    const raw = data as Record<string, unknown>;
+    const version = raw.version;
+    if (typeof version !== 'number' || version < 1 || version > SCENARIO_VERSION) {
+        throw new Error(`Unsupported scenario version: ${String(version)}`);
+    }
+    if (typeof raw.config !== 'object' || raw.config === null) {
+        throw new Error('Scenario is missing its config');
+    }
+
+    const rawConfig = raw.config as Partial<SimulationConfig>;
+    const config = { ...DEFAULT_CONFIG, ...rawConfig };
+
+    if (!isFiniteNumber(config.speedLimit) || config.speedLimit <= 0) {
+        throw new Error('speedLimit must be a positive number');
+    }
+    if (!isFiniteNumber(config.corridorLength) || config.corridorLength <= 0) {
+        throw new Error('corridorLength must be a positive number of feet');
+    }
+    if (!Array.isArray(config.speedZones) || config.speedZones.some(zone =>
+        !isRecord(zone) || !hasNumbers(zone, ['start', 'speedLimit']) ||
+        !(zone.start >= 0 && zone.start <= 100) || !(zone.speedLimit > 0)
+    )) {
+        throw new Error('Speed zones need a start between 0 and 100 and a positive limit');
+    }
+    config.speedZones = [...config.speedZones].sort((a, b) => a.start - b.start);
+    if (!isNumberArray(config.lightPositions) || !isNumberArray(config.lightOffsets) || !isNumberArray(config.lightCycleTimes)) {
+        throw new Error('lightPositions, lightOffsets and lightCycleTimes must be arrays of numbers');
+    }
+
+    const count = config.lightPositions.length;
+    if (count < MIN_LIGHTS || count > MAX_LIGHTS) {
+        throw new Error(`A scenario needs between ${MIN_LIGHTS} and ${MAX_LIGHTS} lights`);
+    }
+    if (config.lightOffsets.length !== count || config.lightCycleTimes.length !== count) {
+        throw new Error('Every light needs an offset and a cycle time');
+    }
+    if (!Number.isInteger(config.lanesPerDirection) || config.lanesPerDirection < 1 || config.lanesPerDirection > MAX_LANES) {
+        throw new Error(`Lanes per direction must be a whole number from 1 to ${MAX_LANES}`);
+    }
+    if (config.lightPositions.some(position => position < 0 || position > 100)) {
+        throw new Error('Light positions must be between 0 and 100');
+    }
+    if (config.lightCycleTimes.some(cycle => cycle <= 0)) {
+        throw new Error('Cycle times must be positive');
+    }
+
+    // Scenarios saved before phase plans existed use the default plan everywhere
+    if (rawConfig.phasePlans === undefined) {
+        config.phasePlans = config.lightPositions.map(() => ({ ...DEFAULT_PHASE_PLAN }));
+    }
+    if (!Array.isArray(config.phasePlans) || config.phasePlans.length !== count) {
+        throw new Error('Every light needs a phase plan');
+    }
+    config.phasePlans = config.phasePlans.map((plan, index) => {
+        if (!isRecord(plan)) throw new Error(`Light ${index + 1}: phase plan must be an object`);
+        const merged = { ...DEFAULT_PHASE_PLAN, ...plan };
+        if (!hasNumbers(merged, Object.keys(DEFAULT_PHASE_PLAN))) {
+            throw new Error(`Light ${index + 1}: phase plan times and split must be numbers`);
+        }
+        const error = validatePhasePlan(merged, config.lightCycleTimes[index]);
+        if (error) throw new Error(`Light ${index + 1}: ${error}`);
+        return merged;
+    });
+
+    if (rawConfig.crossVolumes === undefined) {
+        config.crossVolumes = config.lightPositions.map(() => DEFAULT_CROSS_VOLUME);
+    }
+    if (!isNumberArray(config.crossVolumes) || config.crossVolumes.length !== count) {
+        throw new Error('Every light needs a cross-street volume');
+    }
+    if (config.crossVolumes.some(volume => volume < 0)) {
+        throw new Error('Cross-street volumes cannot be negative');
+    }
+
+    if (rawConfig.controllerTypes === undefined) {
+        config.controllerTypes = config.lightPositions.map(() => 'fixed');
+    }
+    if (!Array.isArray(config.controllerTypes) || config.controllerTypes.length !== count) {
+        throw new Error('Every light needs a signal controller');
+    }
+    const unknownController = config.controllerTypes.find(type => !CONTROLLER_TYPES.includes(type));
+    if (unknownController !== undefined) {
+        throw new Error(`Unknown signal controller: ${String(unknownController)}`);
+    }
+
+    // Everything downstream numbers lights west to east, so put them in that
+    // order, taking each light's own signal settings with it
+    const order = config.lightPositions
+        .map((position, index) => ({ position, index }))
+        .sort((a, b) => a.position - b.position)
+        .map(entry => entry.index);
+    config.lightPositions = order.map(i => config.lightPositions[i]);
+    config.lightOffsets = order.map(i => config.lightOffsets[i]);
+    config.lightCycleTimes = order.map(i => config.lightCycleTimes[i]);
+    config.phasePlans = order.map(i => config.phasePlans[i]);
+    config.crossVolumes = order.map(i => config.crossVolumes[i]);
+    config.controllerTypes = order.map(i => config.controllerTypes[i]);
+
+    if (!isRecord(config.driverModel)) throw new Error('driverModel must be an object');
+    config.driverModel = { ...DEFAULT_DRIVER_MODEL, ...config.driverModel };
+    const driver = config.driverModel;
+    if (!['none', 'uniform', 'normal'].includes(driver.distribution)) {
+        throw new Error(`Unknown speed distribution: ${String(driver.distribution)}`);
+    }
+    if (!hasNumbers(driver, ['speedVariation', 'acceleration', 'deceleration', 'headway', 'aggressiveShare'])) {
+        throw new Error('Driver speed variation, acceleration, braking, headway and aggressive share must be numbers');
+    }
+    if (driver.speedVariation < 0 || driver.speedVariation >= 1) {
+        throw new Error('Speed variation must be between 0% and 100%');
+    }
+    if (driver.acceleration <= 0 || driver.deceleration <= 0 || driver.headway < 0) {
+        throw new Error('Driver acceleration and braking must be positive');
+    }
+    if (driver.aggressiveShare < 0 || driver.aggressiveShare > 1) {
+        throw new Error('Aggressive driver share must be between 0% and 100%');
+    }
+    for (const name of ['cautious', 'aggressive'] as const) {
+        if (!isRecord(driver[name])) throw new Error(`The ${name} driver profile must be an object`);
+        const profile = { ...DEFAULT_DRIVER_MODEL[name], ...driver[name] };
+        if (!hasNumbers(profile, ['reactionTime', 'maxStopDeceleration', 'redGrace']) || typeof profile.goIfReachable !== 'boolean') {
+            throw new Error(`The ${name} driver profile has a missing or non-numeric setting`);
+        }
+        if (profile.reactionTime < 0 || profile.maxStopDeceleration <= 0 || profile.redGrace < 0) {
+            throw new Error(`The ${name} driver profile needs non-negative times and positive braking`);
+        }
+        driver[name] = profile;
+    }
+
+    if (!isRecord(config.demand)) throw new Error('demand must be an object');
+    config.demand = { ...DEFAULT_DEMAND, ...config.demand };
+    const demand = config.demand;
+    if (!['uniform', 'poisson', 'platooned'].includes(demand.pattern)) {
+        throw new Error(`Unknown arrival pattern: ${String(demand.pattern)}`);
+    }
+    if (!hasNumbers(demand, ['eastboundVolume', 'westboundVolume', 'platoonSize', 'leftTurnShare'])) {
+        throw new Error('Volumes, platoon size and left-turn share must be numbers');
+    }
+    if (demand.eastboundVolume < 0 || demand.westboundVolume < 0) {
+        throw new Error('Volumes cannot be negative');
+    }
+    if (!Number.isInteger(demand.platoonSize) || demand.platoonSize < 1) {
+        throw new Error('Platoon size must be a positive whole number');
+    }
+    if (demand.leftTurnShare < 0 || demand.leftTurnShare > 1) {
+        throw new Error('Left-turn share must be between 0% and 100%');
+    }
+
+    if (!Number.isInteger(config.seed)) {
+        throw new Error('seed must be an integer');
+    }
+
+    return {
+        version: SCENARIO_VERSION,
+        name: typeof raw.name === 'string' ? raw.name : 'Untitled corridor',
+        config
+    };
+}
+
+export function scenarioToJson(scenario: Scenario): string {
+    return JSON.stringify(scenario, null, 2);
+}
+
+export function scenarioFromJson(json: string): Scenario {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('Scenario file is not valid JSON');
+    }
+    return parseScenario(data);
+}
+
+// URL hashes carry the scenario as base64url-encoded JSON
+export function scenarioToHash(scenario: Scenario): string {
+    const bytes = new TextEncoder().encode(JSON.stringify(scenario));
+    const base64 = btoa(String.fromCharCode(...bytes));
+    return `#${HASH_KEY}=${base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')}`;
+}
+
+// Returns null when the hash holds no scenario; throws if it holds a broken one
+export function scenarioFromHash(hash: string): Scenario | null {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    const encoded = params.get(HASH_KEY);
+    if (!encoded) return null;
+
+    const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+    let json: string;
+    try {
+        json = new TextDecoder().decode(Uint8Array.from(atob(base64), c => c.charCodeAt(0)));
+    } catch {
+        throw new Error('Scenario link is corrupted');
+    }
+    return scenarioFromJson(json);
+}
@@ -0,0 +1,131 @@
+export type LightState = 'red' | 'yellow' | 'green' | 'all-red';
+
+// Per-light phase plan. Within each cycle the mainline sees:
+// green -> yellow -> all-red -> red (protected left, then cross street) -> all-red
+export interface PhasePlan {
+    greenSplit: number; // fraction of the cycle given to mainline green
+    yellowTime: number; // seconds
+    allRedTime: number; // seconds of clearance after each phase
+    minGreen: number; // seconds; mainline green never drops below this
+    protectedLeftTime: number; // seconds of left-turn arrow; 0 means no left-turn bay
+}
+
+export const DEFAULT_PHASE_PLAN: PhasePlan = {
+    greenSplit: 0.45,
+    yellowTime: 3,
+    allRedTime: 1,
+    minGreen: 5,
+    protectedLeftTime: 0
+};
+
+export interface PhaseDurations {
+    green: number;
+    yellow: number;
+    allRed: number;
+    red: number;
+    leftTurn: number; // arrow green at the start of the mainline red
+    crossGreen: number;
+}
+
+// Arrow green, its yellow and its clearance, carved out of the mainline red
+function leftTurnBlock(plan: PhasePlan): number {
+    return plan.protectedLeftTime > 0 ? plan.protectedLeftTime + plan.yellowTime + plan.allRedTime : 0;
+}
+
+export function phaseDurations(plan: PhasePlan, cycleTime: number): PhaseDurations {
+    const clearance = plan.yellowTime + 2 * plan.allRedTime;
+    const green = Math.min(
+        Math.max(plan.minGreen, plan.greenSplit * cycleTime),
+        Math.max(0, cycleTime - clearance - leftTurnBlock(plan))
+    );
+    const red = Math.max(0, cycleTime - green - clearance);
+    return {
+        green,
+        yellow: plan.yellowTime,
+        allRed: plan.allRedTime,
+        red,
+        leftTurn: plan.protectedLeftTime,
+        crossGreen: Math.max(0, red - leftTurnBlock(plan) - plan.yellowTime)
+    };
+}
+
+// Returns an error message, or null if the plan fits in the cycle
+export function validatePhasePlan(plan: PhasePlan, cycleTime: number): string | null {
+    if (!(plan.greenSplit > 0 && plan.greenSplit < 1)) return 'Green split must be between 0% and 100%';
+    if (plan.yellowTime < 2 || plan.yellowTime > 8) return 'Yellow must be between 2 and 8 seconds';
+    if (plan.allRedTime < 0 || plan.allRedTime > 5) return 'All-red must be between 0 and 5 seconds';
+    if (plan.minGreen < 0) return 'Minimum green cannot be negative';
+    if (plan.protectedLeftTime < 0 || plan.protectedLeftTime > 30) return 'Protected left must be between 0 and 30 seconds';
+
+    const green = Math.max(plan.minGreen, plan.greenSplit * cycleTime);
+    if (green + plan.yellowTime + 2 * plan.allRedTime + leftTurnBlock(plan) > cycleTime) {
+        return `Green, yellow, all-red and left arrow do not fit in a ${cycleTime}s cycle`;
+    }
+    return null;
+}
+
+// Fixed-time signal state at a given simulation second
+export function lightStateAt(simTime: number, offset: number, cycleTime: number, plan: PhasePlan): LightState {
+    // Simple offset logic: each light is just offset from the base time
+    // Positive offset = light changes LATER (subtract offset to delay)
+    const effectiveTime = (((simTime - offset) % cycleTime) + cycleTime) % cycleTime;
+    const phases = phaseDurations(plan, cycleTime);
+
+    if (effectiveTime < phases.green) {
+        return 'green';
+    } else if (effectiveTime < phases.green + phases.yellow) {
+        return 'yellow';
+    } else if (effectiveTime < phases.green + phases.yellow + phases.allRed) {
+        return 'all-red';
+    } else if (effectiveTime < phases.green + phases.yellow + phases.allRed + phases.red) {
+        return 'red';
+    } else {
+        return 'all-red';
+    }
+}
+
+// Whether a car may cross the stop line under this indication
+export function isProceedState(state: LightState): boolean {
+    return state === 'green' || state === 'yellow';
+}
+
+// Indication for a side street or a left-turn arrow
+export type CrossState = 'green' | 'yellow' | 'red';
+
+// Signal shown to the side street. It runs during the mainline red phase,
+// after any protected left, ending with its own yellow so both all-red
+// intervals stay clear.
+export function crossStateAt(simTime: number, offset: number, cycleTime: number, plan: PhasePlan): CrossState {
+    const effectiveTime = (((simTime - offset) % cycleTime) + cycleTime) % cycleTime;
+    const phases = phaseDurations(plan, cycleTime);
+    const redStart = phases.green + phases.yellow + phases.allRed;
+    const crossStart = redStart + leftTurnBlock(plan);
+    const redEnd = redStart + phases.red;
+
+    if (effectiveTime < crossStart || effectiveTime >= redEnd) {
+        return 'red';
+    } else if (effectiveTime < redEnd - phases.yellow) {
+        return 'green';
+    } else {
+        return 'yellow';
+    }
+}
+
+// Left-turn arrow for both mainline directions, shown first in the mainline red
+export function leftTurnStateAt(simTime: number, offset: number, cycleTime: number, plan: PhasePlan): CrossState {
+    if (plan.protectedLeftTime <= 0) return 'red';
+
+    const effectiveTime = (((simTime - offset) % cycleTime) + cycleTime) % cycleTime;
+    const phases = phaseDurations(plan, cycleTime);
+    const arrowStart = phases.green + phases.yellow + phases.allRed;
+
+    if (effectiveTime < arrowStart) {
+        return 'red';
+    } else if (effectiveTime < arrowStart + phases.leftTurn) {
+        return 'green';
+    } else if (effectiveTime < arrowStart + phases.leftTurn + phases.yellow) {
+        return 'yellow';
+    } else {
+        return 'red';
+    }
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { Car, DEFAULT_CONFIG, DirectionKey, SimulationConfig, SimulationEngine } from './simulation';
+import { createStats } from './stats';
+
+// Headless runs of the engine. Five simulated minutes is long enough for
+// plenty of cars in both directions to finish the default corridor.
+const RUN_STEPS = 5 * 60 * 60;
+
+function run(config: Partial<SimulationConfig> = {}, steps: number = RUN_STEPS): SimulationEngine {
+    const sim = new SimulationEngine(config, 1000, 400);
+    sim.step(steps);
+    return sim;
+}
+
+// Run until at least `length` eastbound cars are stopped for the middle light
+function runUntilQueue(length: number): { sim: SimulationEngine; queue: Car[] } {
+    const sim = run({}, 0);
+    let queue: Car[] = [];
+    for (let step = 0; step < RUN_STEPS && queue.length < length; step++) {
+        sim.step();
+        queue = sim.cars.filter(car => car.direction === 1 && car.isStopped && car.stopLog[car.stopLog.length - 1]?.lightIndex === 1);
+    }
+    return { sim, queue };
+}
+
+describe('SimulationEngine', () => {
+    it('gives identical runs for the same seed', () => {
+        const first = run({ seed: 7 });
+        const second = run({ seed: 7 });
+
+        expect(second.stats).toEqual(first.stats);
+        expect(second.tripLog).toEqual(first.tripLog);
+        expect(second.signalLog).toEqual(first.signalLog);
+        expect(second.cars.map(car => [car.id, car.x, car.speed])).toEqual(first.cars.map(car => [car.id, car.x, car.speed]));
+    });
+
+    it('gives a different run for a different seed', () => {
+        const first = run({ seed: 1, demand: { ...DEFAULT_CONFIG.demand, pattern: 'poisson' } });
+        const second = run({ seed: 2, demand: { ...DEFAULT_CONFIG.demand, pattern: 'poisson' } });
+
+        expect(second.tripLog).not.toEqual(first.tripLog);
+    });
+
+    it('keeps the stats consistent with the trip log', () => {
+        const sim = run();
+
+        (['eastbound', 'westbound'] as DirectionKey[]).forEach(direction => {
+            const trips = sim.tripLog.filter(trip => trip.direction === direction);
+            const completed = trips.filter(trip => trip.exit === 'completed');
+            const stats = sim.stats[direction];
+
+            expect(completed.length).toBeGreaterThan(0);
+            expect(stats.completed).toBe(completed.length);
+            expect(stats.turnedLeft).toBe(trips.length - completed.length);
+            expect(stats.greenWave).toBe(completed.filter(trip => trip.stops.length === 0).length);
+            expect(stats.redLightRunners).toBe(trips.filter(trip => trip.ranRedLight).length);
+            expect(stats.totalStops).toBe(completed.reduce((total, trip) => total + trip.stops.length, 0));
+        });
+    });
+
+    it('lets a one-way green wave through without stops past the first light', () => {
+        // Every driver at the limit, offsets matching the eastbound travel
+        // time to each light (4.2 s and 12 s), and no one coming the other way
+        const sim = run({
+            lightOffsets: [0, 4.2, 12],
+            driverModel: { ...DEFAULT_CONFIG.driverModel, distribution: 'none', aggressiveShare: 0 },
+            demand: { ...DEFAULT_CONFIG.demand, westboundVolume: 0, leftTurnShare: 0 }
+        });
+
+        const trips = sim.tripLog.filter(trip => trip.exit === 'completed');
+        expect(trips.length).toBeGreaterThan(0);
+        expect(trips.every(trip => trip.stops.every(stop => stop.lightIndex === 0))).toBe(true);
+        expect(sim.stats.eastbound.redLightRunners).toBe(0);
+    });
+
+    it('counts every car stopped in a signal queue as hitting a red, not just the first', () => {
+        const { queue } = runUntilQueue(3);
+
+        expect(queue.length).toBeGreaterThanOrEqual(3);
+        expect(queue.every(car => car.hitRedLight)).toBe(true);
+    });
+
+    it('leaves cars that queued behind the first one out of the no-stop count', () => {
+        const { sim, queue } = runUntilQueue(3);
+        const followers = queue.filter(car => car !== queue.reduce((head, other) => other.x > head.x ? other : head)).map(car => car.id);
+        sim.step(RUN_STEPS);
+
+        const trips = sim.tripLog.filter(trip => followers.includes(trip.carId) && trip.exit === 'completed');
+        expect(trips.length).toBeGreaterThan(0);
+        expect(trips.every(trip => trip.stops.length > 0)).toBe(true);
+        const eastbound = sim.tripLog.filter(trip => trip.direction === 'eastbound' && trip.exit === 'completed');
+        expect(sim.stats.eastbound.greenWave).toBe(eastbound.filter(trip => trip.stops.length === 0).length);
+    });
+
+    it('holds side-street arrivals until their street has room instead of dropping them', () => {
+        const sim = run({ crossVolumes: [1500, 1500, 1500] }, 60 * 60);
+        const cross = sim.crossTraffic;
+        expect(cross.waiting.length).toBeGreaterThan(0);
+
+        // With no new arrivals, every car waiting now either drives through or is still waiting
+        const total = () => cross.stats.completed + cross.cars.length + cross.waiting.length;
+        const before = total();
+        sim.lights.forEach((_, index) => sim.setCrossVolume(index, 0));
+        sim.step(RUN_STEPS);
+        expect(total()).toBe(before);
+        expect(cross.stats.completed).toBeGreaterThan(0);
+    });
+
+    it('returns to its starting state on reset', () => {
+        const fresh = run({ seed: 3 }, 0);
+        const sim = run({ seed: 3 });
+        sim.reset();
+
+        expect(sim.time).toBe(0);
+        expect(sim.cars).toEqual([]);
+        expect(sim.tripLog).toEqual([]);
+        expect(sim.signalLog).toEqual([]);
+        expect(sim.stats).toEqual(createStats());
+        expect(sim.lights.map(light => light.currentState)).toEqual(fresh.lights.map(light => light.currentState));
+
+        // and runs the same from there as a new engine would
+        sim.step(RUN_STEPS);
+        fresh.step(RUN_STEPS);
+        expect(sim.tripLog).toEqual(fresh.tripLog);
+        expect(sim.stats).toEqual(fresh.stats);
+    });
+});
@@ -0,0 +1,1184 @@
+import { createRng, createStream } from './random';
+import { CorridorStats, createStats, recordTrip, recordTurn } from './stats';
+import { CrossState, crossStateAt, DEFAULT_PHASE_PLAN, leftTurnStateAt, LightState, lightStateAt, PhasePlan } from './signals';
+import { ArrivalEvent, DEFAULT_DEMAND, Demand, nextArrival } from './demand';
+import { CROSS_CAR_LENGTH, CrossStreetTraffic } from './crossStreets';
+import { ControllerSettings, ControllerType, createController, IntersectionDemand, NO_DEMAND, SignalController } from './controllers';
+import { SpeedZone } from './corridor';
+import { SignalEvent, StopRecord, TripLogEntry } from './eventLog';
+import { fuelRate } from './emissions';
+import { decideToGo, DEFAULT_DRIVER_MODEL, DriverModel, idmAcceleration, IdmParams, sampleSpeedFactor } from './driverModel';
+
+export interface TrafficLight {
+    x: number;
+    currentState: LightState;
+    timeInState: number; // steps since the last state change
+    cycleTime: number;
+    crossState: CrossState; // indication shown to the side street
+    leftTurnState: CrossState; // arrow for the left-turn bays, red when there are none
+    controller: SignalController;
+    history: { time: number; state: LightState }[]; // mainline state changes, trimmed to the trajectory window
+    queues: Record<DirectionKey, ApproachQueue>;
+    boxBlocked: boolean; // stopped mainline cars are sitting in the intersection
+    lastBoxBlocked: number | null; // step
+}
+
+// Stopped through traffic lined up behind one stop line
+export interface ApproachQueue {
+    vehicles: number; // in the longest lane
+    length: number; // pixels from the stop line to the rear of that lane's last car
+    maxVehicles: number; // longest seen since reset
+    spillback: boolean; // no room left for another car before the upstream intersection
+    lastSpillback: number | null; // step
+}
+
+export interface Car {
+    id: number;
+    x: number;
+    y: number;
+    speed: number; // current speed, pixels per step
+    desiredSpeed: number; // pixels per step this driver wants to travel
+    speedFactor: number; // desired speed as a multiple of the speed limit
+    direction: 1 | -1; // 1 for eastbound, -1 for westbound
+    lane: number; // through lane, 0 nearest the centre line
+    inBay: boolean; // in the left-turn bay of turnAt
+    turnAt: TrafficLight | null; // light where the car leaves by turning left
+    color: string;
+    hitRedLight: boolean; // has been held by a signal, at the stop line or further back in its queue
+    heldAt: TrafficLight | null; // signal whose queue the car is in, directly or behind others; cleared once past it
+    spawnTime: number; // step the car arrived (it may have waited to enter the road)
+    enteredAt: number; // step the car got onto the road
+    spawnX: number;
+    stops: number; // number of times the car came to a halt
+    isStopped: boolean;
+    stopLog: StopRecord[];
+    fuel: number; // millilitres burned since entering the road
+    clearingLight: TrafficLight | null; // light the car was committed to when its yellow ended
+    aggressive: boolean; // uses the aggressive yellow-light profile
+    yellowDecision: { light: TrafficLight; go: boolean } | null;
+    ranRedLight: boolean; // crossed a stop line while the light was red
+}
+
+// Sampled positions of one car over time, used by the time-space diagram
+export interface Trajectory {
+    carId: number;
+    direction: 1 | -1;
+    hitRedLight: boolean;
+    points: { time: number; x: number }[]; // time in steps
+}
+
+export interface SimulationConfig {
+    speedLimit: number; // mph, wherever no speed zone applies
+    speedZones: SpeedZone[]; // sorted by start
+    corridorLength: number; // feet between the 0% and 100% positions
+    lightPositions: number[]; // percentage along the road for each light
+    lightOffsets: number[]; // green wave offsets in simulation seconds
+    lightCycleTimes: number[]; // individual cycle times for each light in simulation seconds
+    phasePlans: PhasePlan[]; // green/yellow/all-red split for each light
+    crossVolumes: number[]; // side-street vehicles per hour at each light, per approach
+    controllerTypes: ControllerType[]; // how each light decides its phases
+    lanesPerDirection: number;
+    driverModel: DriverModel;
+    demand: Demand;
+    seed: number;
+}
+
+export const DEFAULT_CONFIG: SimulationConfig = {
+    speedLimit: 60,
+    speedZones: [],
+    corridorLength: 15840, // 3 miles
+    lightPositions: [0, 35, 100],
+    lightOffsets: [0, 6, 12], // green wave offsets: left=0s, middle=6s, right=12s
+    lightCycleTimes: [30, 30, 30],
+    phasePlans: [DEFAULT_PHASE_PLAN, DEFAULT_PHASE_PLAN, DEFAULT_PHASE_PLAN],
+    crossVolumes: [300, 300, 300],
+    controllerTypes: ['fixed', 'fixed', 'fixed'],
+    lanesPerDirection: 1,
+    driverModel: DEFAULT_DRIVER_MODEL,
+    demand: DEFAULT_DEMAND,
+    seed: 1
+};
+
+export type DirectionKey = 'eastbound' | 'westbound';
+
+// A vehicle that has arrived but not yet got onto the road. Its driver is
+// drawn on arrival so the same seed gives the same vehicles whatever the
+// signals do to them.
+export interface PendingVehicle {
+    arrivalTime: number; // step
+    speedFactor: number;
+    aggressive: boolean;
+    turnDraw: number; // uniform in [0, 1); picks where, if anywhere, it turns left
+}
+
+export function directionKey(direction: 1 | -1): DirectionKey {
+    return direction === 1 ? 'eastbound' : 'westbound';
+}
+
+export const DEFAULT_CROSS_VOLUME = 300;
+export const MAX_LANES = 3;
+export const MIN_LIGHTS = 1;
+export const MAX_LIGHTS = 12;
+
+// Headless traffic model. Knows nothing about the DOM; a view reads
+// `lights` and `cars` after each `step()` and renders them.
+export class SimulationEngine {
+    readonly width: number;
+    readonly height: number;
+
+    lights: TrafficLight[] = [];
+    cars: Car[] = [];
+    time: number = 0; // steps since reset
+    stats: CorridorStats = createStats();
+    trajectories: Map<number, Trajectory> = new Map();
+    // Vehicles waiting for room to enter the road
+    entryQueues: Record<DirectionKey, PendingVehicle[]> = { eastbound: [], westbound: [] };
+    crossTraffic: CrossStreetTraffic;
+    tripLog: TripLogEntry[] = []; // every car that has left the corridor
+    signalLog: SignalEvent[] = []; // every change of any signal head: mainline, side street and left arrow
+
+    // Configuration
+    speedLimit: number;
+    speedZones: SpeedZone[];
+    corridorLength: number;
+    lightPositions: number[];
+    lightOffsets: number[];
+    lightCycleTimes: number[];
+    phasePlans: PhasePlan[];
+    crossVolumes: number[];
+    controllerTypes: ControllerType[];
+    lanesPerDirection: number;
+    driverModel: DriverModel;
+    demand: Demand;
+    seed: number;
+
+    private random: () => number; // side streets
+    // Mainline arrivals have a stream per direction, untouched by anything
+    // else, so two runs with the same seed and demand see the same traffic
+    private arrivalRandom: Record<DirectionKey, () => number>;
+    private cycleTime: number = 30; // default cycle time in simulation seconds
+    private upcomingArrivals: Record<DirectionKey, { time: number; count: number } | null> = { eastbound: null, westbound: null };
+    private nextCarId: number = 1;
+    private readonly TRAJECTORY_SAMPLE_INTERVAL = 10; // steps between trajectory samples
+    readonly TRAJECTORY_WINDOW = 120 * 60; // steps of trajectory history to keep (two simulated minutes)
+    // The model advances in fixed steps of 1/60 simulated second, however
+    // often the view gets to draw; see step()
+    readonly STEPS_PER_SECOND = 60;
+    readonly ROAD_MARGIN = 150; // pixels from edge to the 0% and 100% light positions
+    readonly LANE_WIDTH = 30; // pixels
+    readonly BAY_LENGTH = 150; // pixels of left-turn bay upstream of each stop line
+    private readonly LANE_CHANGE_SPEED = 0.5; // sideways pixels per step
+    private readonly DETECTOR_LENGTH = 4; // car lengths of detection zone upstream of each stop line
+
+    // Distance scale: cars cover ground 15x faster than the signal clock runs,
+    // so a 3-mile corridor fits in a handful of 30 s cycles. This is part of the
+    // model; how fast it plays back is up to the view.
+    readonly TIME_SCALE = 15;
+
+    constructor(config: Partial<SimulationConfig> = {}, width: number = 1000, height: number = 400) {
+        const merged = { ...DEFAULT_CONFIG, ...config };
+        this.width = width;
+        this.height = height;
+        this.speedLimit = merged.speedLimit;
+        this.speedZones = merged.speedZones.map(zone => ({ ...zone }));
+        this.corridorLength = merged.corridorLength;
+        this.lightPositions = [...merged.lightPositions];
+        this.lightOffsets = [...merged.lightOffsets];
+        this.lightCycleTimes = [...merged.lightCycleTimes];
+        this.phasePlans = merged.phasePlans.map(plan => ({ ...plan }));
+        this.crossVolumes = [...merged.crossVolumes];
+        this.controllerTypes = [...merged.controllerTypes];
+        this.lanesPerDirection = merged.lanesPerDirection;
+        this.driverModel = { ...merged.driverModel };
+        this.demand = { ...merged.demand };
+        this.seed = merged.seed;
+        this.random = createRng(this.seed);
+        this.arrivalRandom = this.createArrivalStreams();
+        this.crossTraffic = new CrossStreetTraffic(this);
+
+        this.reset();
+    }
+
+    // The corridor always fills the space between the road margins, so the
+    // scale follows its length (700px for the default 3 miles)
+    get PIXELS_PER_FOOT(): number {
+        return (this.width - 2 * this.ROAD_MARGIN) / this.corridorLength;
+    }
+
+    readonly MPH_TO_PIXELS_PER_STEP = (mph: number) => {
+        // mph -> feet per second -> pixels per second -> pixels per step (accounting for time scale)
+        const feetPerSecond = (mph * 5280) / 3600;
+        const pixelsPerSecond = feetPerSecond * this.PIXELS_PER_FOOT;
+        const pixelsPerSimSecond = pixelsPerSecond * this.TIME_SCALE;
+        return pixelsPerSimSecond / this.STEPS_PER_SECOND;
+    }
+
+    // Half the paved width: the through lanes plus a bay lane when any light has one
+    get roadHalfWidth(): number {
+        return Math.max(60, this.laneSlots * this.LANE_WIDTH);
+    }
+
+    private get laneSlots(): number {
+        return this.lanesPerDirection + (this.hasAnyBay ? 1 : 0);
+    }
+
+    get hasAnyBay(): boolean {
+        return this.lights.some((_, index) => this.hasLeftTurnBay(index));
+    }
+
+    hasLeftTurnBay(lightIndex: number): boolean {
+        return (this.phasePlans[lightIndex]?.protectedLeftTime ?? 0) > 0;
+    }
+
+    // Centre of a lane. Lanes are packed against the outer kerb; the bay lane,
+    // when present, sits next to the centre line.
+    laneY(direction: 1 | -1, lane: number, inBay: boolean = false): number {
+        const slot = inBay ? 0 : lane + (this.hasAnyBay ? 1 : 0);
+        const offset = this.roadHalfWidth - (this.laneSlots - slot - 0.5) * this.LANE_WIDTH;
+        return this.height / 2 - direction * offset;
+    }
+
+    // Physical car length in pixels, with a minimum so cars stay visible
+    get carLength(): number {
+        const minCarLength = 32; // same as display size
+        return Math.max(15 * this.PIXELS_PER_FOOT, minCarLength);
+    }
+
+    getConfig(): SimulationConfig {
+        return {
+            speedLimit: this.speedLimit,
+            speedZones: this.speedZones.map(zone => ({ ...zone })),
+            corridorLength: this.corridorLength,
+            lightPositions: [...this.lightPositions],
+            lightOffsets: [...this.lightOffsets],
+            lightCycleTimes: [...this.lightCycleTimes],
+            phasePlans: this.phasePlans.map(plan => ({ ...plan })),
+            crossVolumes: [...this.crossVolumes],
+            controllerTypes: [...this.controllerTypes],
+            lanesPerDirection: this.lanesPerDirection,
+            driverModel: { ...this.driverModel },
+            demand: { ...this.demand },
+            seed: this.seed
+        };
+    }
+
+    // Replace the whole configuration (e.g. from a saved scenario) and restart
+    applyConfig(config: SimulationConfig): void {
+        this.speedLimit = config.speedLimit;
+        this.speedZones = config.speedZones.map(zone => ({ ...zone }));
+        this.corridorLength = config.corridorLength;
+        this.lightPositions = [...config.lightPositions];
+        this.lightOffsets = [...config.lightOffsets];
+        this.lightCycleTimes = [...config.lightCycleTimes];
+        this.phasePlans = config.phasePlans.map(plan => ({ ...plan }));
+        this.crossVolumes = [...config.crossVolumes];
+        this.controllerTypes = [...config.controllerTypes];
+        this.lanesPerDirection = config.lanesPerDirection;
+        this.driverModel = { ...config.driverModel };
+        this.demand = { ...config.demand };
+        this.seed = config.seed;
+        this.reset();
+    }
+
+    // Clear all cars and restart the clock and random sequence
+    reset(): void {
+        this.time = 0;
+        this.random = createRng(this.seed);
+        this.arrivalRandom = this.createArrivalStreams();
+        this.lights = this.lightPositions.map((_, index) => this.createLight(index));
+
+        // Cars will be spawned dynamically - start with empty array
+        this.cars = [];
+        this.entryQueues = { eastbound: [], westbound: [] };
+        this.scheduleFirstArrival('eastbound');
+        this.scheduleFirstArrival('westbound');
+        this.stats = createStats();
+        this.trajectories = new Map();
+        this.nextCarId = 1;
+        this.tripLog = [];
+        this.signalLog = [];
+        this.crossTraffic.reset();
+    }
+
+    // Advance the model by dt fixed steps. Results depend only on the number
+    // of steps, never on wall-clock time.
+    step(dt: number = 1): void {
+        for (let i = 0; i < dt; i++) {
+            this.tick();
+        }
+    }
+
+    private createArrivalStreams(): Record<DirectionKey, () => number> {
+        return { eastbound: createStream(this.seed, 1), westbound: createStream(this.seed, 2) };
+    }
+
+    // Uniform random number in [0, 1) from the seeded generator
+    nextRandom(): number {
+        return this.random();
+    }
+
+    setSpeedLimit(mph: number): void {
+        // Drivers pick up the new limit on the next step; acceleration takes them there
+        this.speedLimit = mph;
+    }
+
+    // Volumes and pattern take effect from the next scheduled arrival
+    setDemand(demand: Demand): void {
+        this.demand = { ...demand };
+        this.scheduleArrival('eastbound', this.time);
+        this.scheduleArrival('westbound', this.time);
+    }
+
+    // New speed spread applies to cars spawned from now on; rates apply immediately
+    setDriverModel(model: DriverModel): void {
+        this.driverModel = { ...model };
+    }
+
+    setLightPosition(index: number, position: number): void {
+        this.lightPositions[index] = Math.min(100, Math.max(0, position));
+        this.lights[index].x = this.positionToX(this.lightPositions[index]);
+    }
+
+    setLightOffset(index: number, offset: number): void {
+        this.lightOffsets[index] = offset;
+    }
+
+    setLightCycleTime(index: number, cycleTime: number): void {
+        this.lightCycleTimes[index] = cycleTime;
+        if (this.lights[index]) this.lights[index].cycleTime = cycleTime;
+    }
+
+    setPhasePlan(index: number, plan: PhasePlan): void {
+        this.phasePlans[index] = { ...plan };
+        if (!this.hasLeftTurnBay(index)) this.cancelTurnsAt(this.lights[index]);
+    }
+
+    // Cars in lanes that no longer exist merge into the outermost remaining lane
+    setLanesPerDirection(lanes: number): void {
+        this.lanesPerDirection = Math.min(MAX_LANES, Math.max(1, lanes));
+        this.cars.forEach(car => {
+            car.lane = Math.min(car.lane, this.lanesPerDirection - 1);
+        });
+    }
+
+    setCrossVolume(index: number, volume: number): void {
+        this.crossVolumes[index] = volume;
+        this.crossTraffic.rescheduleArrivals();
+    }
+
+    // The new controller starts from mainline green on the next step
+    setControllerType(index: number, type: ControllerType): void {
+        this.controllerTypes[index] = type;
+        this.lights[index].controller = createController(type);
+    }
+
+    // Re-order lights west to east, keeping per-light settings attached
+    sortLights(): void {
+        const order = this.lightPositions
+            .map((position, index) => ({ position, index }))
+            .sort((a, b) => a.position - b.position)
+            .map(entry => entry.index);
+
+        this.lightPositions = order.map(i => this.lightPositions[i]);
+        this.lightOffsets = order.map(i => this.lightOffsets[i]);
+        this.lightCycleTimes = order.map(i => this.lightCycleTimes[i]);
+        this.phasePlans = order.map(i => this.phasePlans[i]);
+        this.crossVolumes = order.map(i => this.crossVolumes[i]);
+        this.controllerTypes = order.map(i => this.controllerTypes[i]);
+        this.lights = order.map(i => this.lights[i]);
+        this.crossTraffic.rescheduleArrivals();
+    }
+
+    addLight(): boolean {
+        if (this.lightPositions.length >= MAX_LIGHTS) return false;
+
+        // Place the new light in the middle of the widest gap (road ends count as bounds)
+        const positions = [0, ...[...this.lightPositions].sort((a, b) => a - b), 100];
+        let gapStart = 0;
+        let gapWidth = 0;
+        for (let i = 0; i < positions.length - 1; i++) {
+            if (positions[i + 1] - positions[i] > gapWidth) {
+                gapStart = positions[i];
+                gapWidth = positions[i + 1] - positions[i];
+            }
+        }
+
+        this.lightPositions.push(gapStart + gapWidth / 2);
+        this.lightOffsets.push(0);
+        this.lightCycleTimes.push(this.cycleTime);
+        this.phasePlans.push({ ...DEFAULT_PHASE_PLAN });
+        this.crossVolumes.push(DEFAULT_CROSS_VOLUME);
+        this.controllerTypes.push('fixed');
+        this.lights.push(this.createLight(this.lightPositions.length - 1));
+
+        this.sortLights();
+        return true;
+    }
+
+    removeLight(index: number): boolean {
+        if (this.lightPositions.length <= MIN_LIGHTS) return false;
+
+        this.lightPositions.splice(index, 1);
+        this.lightOffsets.splice(index, 1);
+        this.lightCycleTimes.splice(index, 1);
+        this.phasePlans.splice(index, 1);
+        this.crossVolumes.splice(index, 1);
+        this.controllerTypes.splice(index, 1);
+        this.cancelTurnsAt(this.lights[index]);
+        this.lights.splice(index, 1);
+        this.crossTraffic.rescheduleArrivals();
+        return true;
+    }
+
+    // Convert a light position (percentage along the road) to an x coordinate
+    positionToX(position: number): number {
+        const availableWidth = this.width - (2 * this.ROAD_MARGIN);
+        return this.ROAD_MARGIN + (availableWidth * position / 100);
+    }
+
+    // Inverse of positionToX, clamped to the road
+    xToPosition(x: number): number {
+        const availableWidth = this.width - (2 * this.ROAD_MARGIN);
+        return Math.min(100, Math.max(0, (x - this.ROAD_MARGIN) / availableWidth * 100));
+    }
+
+    // Millilitres of fuel a vehicle burns over one step in which its speed
+    // (pixels per step) went from one value to the other. Speeds and
+    // distances are real, so each step stands for TIME_SCALE times as many
+    // real seconds of driving as it does on the signal clock.
+    fuelForStep(previousSpeed: number, speed: number): number {
+        const metresPerSecond = (pixelsPerStep: number) => (pixelsPerStep / this.MPH_TO_PIXELS_PER_STEP(1)) * 0.44704;
+        const realSeconds = this.TIME_SCALE / this.STEPS_PER_SECOND;
+        const acceleration = (metresPerSecond(speed) - metresPerSecond(previousSpeed)) / realSeconds;
+        return fuelRate(metresPerSecond(speed), acceleration) * realSeconds;
+    }
+
+    // Posted limit at an x coordinate: the last zone starting at or before it
+    speedLimitAt(x: number): number {
+        const position = this.xToPosition(x);
+        let limit = this.speedLimit;
+        for (const zone of this.speedZones) {
+            if (zone.start <= position) limit = zone.speedLimit;
+        }
+        return limit;
+    }
+
+    // Simulated seconds needed to drive between two x coordinates at the posted limits
+    simTravelTimeSeconds(fromX: number, toX: number): number {
+        const boundaries = this.speedZones
+            .map(zone => this.positionToX(zone.start))
+            .filter(x => x > Math.min(fromX, toX) && x < Math.max(fromX, toX));
+        const points = [fromX, ...boundaries, toX].sort((a, b) => (a - b) * Math.sign(toX - fromX || 1));
+
+        let seconds = 0;
+        for (let i = 0; i < points.length - 1; i++) {
+            const distanceInFeet = Math.abs(points[i + 1] - points[i]) / this.PIXELS_PER_FOOT;
+            const limit = this.speedLimitAt((points[i] + points[i + 1]) / 2);
+            seconds += (distanceInFeet * 3600) / (limit * 5280);
+        }
+        return seconds / this.TIME_SCALE;
+    }
+
+    calculateLightState(time: number, lightIndex: number): LightState {
+        // Apply individual light offset and cycle time
+        const lightOffset = this.lightOffsets[lightIndex] || 0;
+        const lightCycleTime = this.lightCycleTimes[lightIndex] || this.cycleTime;
+        const plan = this.phasePlans[lightIndex] || DEFAULT_PHASE_PLAN;
+        const currentSimTime = time / this.STEPS_PER_SECOND; // convert step time to simulation seconds
+
+        return lightStateAt(currentSimTime, lightOffset, lightCycleTime, plan);
+    }
+
+    calculateCrossState(time: number, lightIndex: number): CrossState {
+        const lightOffset = this.lightOffsets[lightIndex] || 0;
+        const lightCycleTime = this.lightCycleTimes[lightIndex] || this.cycleTime;
+        const plan = this.phasePlans[lightIndex] || DEFAULT_PHASE_PLAN;
+        return crossStateAt(time / this.STEPS_PER_SECOND, lightOffset, lightCycleTime, plan);
+    }
+
+    calculateLeftTurnState(time: number, lightIndex: number): CrossState {
+        const lightOffset = this.lightOffsets[lightIndex] || 0;
+        const lightCycleTime = this.lightCycleTimes[lightIndex] || this.cycleTime;
+        const plan = this.phasePlans[lightIndex] || DEFAULT_PHASE_PLAN;
+        return leftTurnStateAt(time / this.STEPS_PER_SECOND, lightOffset, lightCycleTime, plan);
+    }
+
+    // Mainline state a light showed at an earlier step. Fixed-time lights are
+    // worked out from their timing; the others are looked up in their history.
+    pastLightState(time: number, lightIndex: number): LightState {
+        const light = this.lights[lightIndex];
+        if (light.controller.type === 'fixed') return this.calculateLightState(time, lightIndex);
+
+        let state = light.history[0].state;
+        for (const change of light.history) {
+            if (change.time > time) break;
+            state = change.state;
+        }
+        return state;
+    }
+
+    // Detector and queue readings at one intersection. Presence detectors
+    // cover DETECTOR_LENGTH car lengths upstream of each stop line.
+    private detectDemand(light: TrafficLight): IntersectionDemand {
+        const demand: IntersectionDemand = { ...NO_DEMAND };
+
+        for (const car of this.cars) {
+            const front = car.x + car.direction * this.carLength / 2;
+            const toLine = (this.stopLineX(light, car.direction) - front) * car.direction;
+            if (toLine < 0) continue;
+            if (car.inBay && car.turnAt === light) {
+                demand.leftTurnDetected = true;
+            } else if (toLine <= this.carLength * this.DETECTOR_LENGTH) {
+                demand.mainlineDetected = true;
+            }
+            if (car.isStopped && this.lights[this.nextLightIndex(car) ?? -1] === light) demand.mainlineQueue += 1;
+        }
+
+        for (const car of this.crossTraffic.cars) {
+            if (car.light !== light) continue;
+            const front = car.y + car.direction * CROSS_CAR_LENGTH / 2;
+            const toLine = (this.crossTraffic.stopLineY(car.direction) - front) * car.direction;
+            if (toLine < 0) continue;
+            if (toLine <= CROSS_CAR_LENGTH * this.DETECTOR_LENGTH) demand.crossDetected = true;
+            if (car.isStopped) demand.crossQueue += 1;
+        }
+        return demand;
+    }
+
+    // Drivers heading for a bay that has gone carry straight on instead
+    private cancelTurnsAt(light: TrafficLight | undefined): void {
+        this.cars.forEach(car => {
+            if (light && car.turnAt === light) {
+                car.turnAt = null;
+                car.inBay = false;
+            }
+        });
+    }
+
+    private volumeFor(key: DirectionKey): number {
+        return key === 'eastbound' ? this.demand.eastboundVolume : this.demand.westboundVolume;
+    }
+
+    // The first arrival in each direction happens as soon as the run starts
+    private scheduleFirstArrival(key: DirectionKey): void {
+        const event = nextArrival(this.demand, this.volumeFor(key), this.arrivalRandom[key]);
+        this.upcomingArrivals[key] = event ? { time: 0, count: event.count } : null;
+    }
+
+    private scheduleArrival(key: DirectionKey, from: number): void {
+        const event: ArrivalEvent | null = nextArrival(this.demand, this.volumeFor(key), this.arrivalRandom[key]);
+        this.upcomingArrivals[key] = event ? { time: from + event.gap * this.STEPS_PER_SECOND, count: event.count } : null;
+    }
+
+    // Queue up any vehicles that have arrived, then let one enter if there is room
+    private processArrivals(direction: 1 | -1): void {
+        const key = directionKey(direction);
+        let upcoming = this.upcomingArrivals[key];
+        while (upcoming && upcoming.time <= this.time) {
+            for (let i = 0; i < upcoming.count; i++) {
+                const random = this.arrivalRandom[key];
+                this.entryQueues[key].push({
+                    arrivalTime: Math.round(upcoming.time),
+                    speedFactor: sampleSpeedFactor(this.driverModel, random),
+                    aggressive: random() < this.driverModel.aggressiveShare,
+                    turnDraw: random()
+                });
+            }
+            this.scheduleArrival(key, upcoming.time);
+            upcoming = this.upcomingArrivals[key];
+        }
+
+        const queue = this.entryQueues[key];
+        if (queue.length === 0) return;
+
+        // Enter in whichever lane has the most room at the end of the road
+        const entryX = direction === 1 ? -50 : this.width + 50;
+        let lane = -1;
+        let bestRoom = this.carLength * 1.2;
+        for (let candidate = 0; candidate < this.lanesPerDirection; candidate++) {
+            const room = this.cars
+                .filter(car => car.direction === direction && this.occupiesLane(car, candidate, false))
+                .reduce((nearest, car) => Math.min(nearest, Math.abs(car.x - entryX)), Infinity);
+            if (room >= bestRoom) {
+                lane = candidate;
+                bestRoom = room;
+            }
+        }
+        if (lane === -1) return;
+
+        const vehicle = queue.shift()!;
+        const car = direction === 1
+            ? this.createCar(1, entryX, lane, '#4444ff', vehicle)
+            : this.createCar(-1, entryX, lane, '#ff44ff', vehicle);
+
+        // Enter no faster than the car ahead
+        const leader = this.findLeader(car);
+        if (leader) car.speed = Math.min(car.speed, leader.speed);
+        this.cars.push(car);
+    }
+
+    private createCar(direction: 1 | -1, x: number, lane: number, color: string, vehicle: PendingVehicle): Car {
+        const { speedFactor, aggressive } = vehicle;
+        const desiredSpeed = this.MPH_TO_PIXELS_PER_STEP(this.speedLimitAt(x) * speedFactor);
+        return {
+            id: this.nextCarId++,
+            x,
+            y: this.laneY(direction, lane),
+            speed: desiredSpeed,
+            desiredSpeed,
+            speedFactor,
+            direction,
+            lane,
+            inBay: false,
+            turnAt: this.chooseTurn(direction, vehicle.turnDraw),
+            color,
+            hitRedLight: false,
+            heldAt: null,
+            spawnTime: vehicle.arrivalTime,
+            enteredAt: this.time,
+            spawnX: x,
+            stops: 0,
+            isStopped: false,
+            stopLog: [],
+            fuel: 0,
+            clearingLight: null,
+            aggressive,
+            yellowDecision: null,
+            ranRedLight: false
+        };
+    }
+
+    private createLight(index: number): TrafficLight {
+        const controller = createController(this.controllerTypes[index] ?? 'fixed');
+        const indications = controller.update(this.time / this.STEPS_PER_SECOND, this.controllerSettings(index), NO_DEMAND);
+        return {
+            x: this.positionToX(this.lightPositions[index]),
+            currentState: indications.main,
+            timeInState: 0,
+            cycleTime: this.lightCycleTimes[index],
+            crossState: indications.cross,
+            leftTurnState: this.hasLeftTurnBay(index) ? indications.leftTurn : 'red',
+            controller,
+            history: [{ time: this.time, state: indications.main }],
+            queues: { eastbound: this.createQueue(), westbound: this.createQueue() },
+            boxBlocked: false,
+            lastBoxBlocked: null
+        };
+    }
+
+    private createQueue(): ApproachQueue {
+        return { vehicles: 0, length: 0, maxVehicles: 0, spillback: false, lastSpillback: null };
+    }
+
+    private controllerSettings(index: number): ControllerSettings {
+        return {
+            offset: this.lightOffsets[index] || 0,
+            cycleTime: this.lightCycleTimes[index] || this.cycleTime,
+            plan: this.phasePlans[index] || DEFAULT_PHASE_PLAN
+        };
+    }
+
+    // Each light with a bay along the route turns away a share of the traffic.
+    // One draw decides it: the number of bays passed before turning is
+    // geometric in the turn share.
+    private chooseTurn(direction: 1 | -1, draw: number): TrafficLight | null {
+        const share = this.demand.leftTurnShare;
+        if (share <= 0) return null;
+        const route = this.lights
+            .filter((_, index) => this.hasLeftTurnBay(index))
+            .sort((a, b) => (a.x - b.x) * direction);
+        const passed = share >= 1 ? 0 : Math.floor(Math.log(1 - draw) / Math.log(1 - share));
+        return route[passed] ?? null;
+    }
+
+    private tick(): void {
+        this.time += 1;
+
+        // Spawn new cars according to the demand in each direction
+        this.processArrivals(1);
+        this.processArrivals(-1);
+
+        // Update traffic lights
+        this.lights.forEach((light, index) => {
+            const previousState = light.currentState;
+            const previousCross = light.crossState;
+            const previousLeftTurn = light.leftTurnState;
+            const indications = light.controller.update(this.time / this.STEPS_PER_SECOND, this.controllerSettings(index), this.detectDemand(light));
+            light.currentState = indications.main;
+            light.timeInState = light.currentState === previousState ? light.timeInState + 1 : 0;
+            light.crossState = indications.cross;
+            light.leftTurnState = this.hasLeftTurnBay(index) ? indications.leftTurn : 'red';
+
+            if (light.currentState !== previousState) {
+                this.signalLog.push({ time: this.time / this.STEPS_PER_SECOND, lightIndex: index, movement: 'mainline', from: previousState, to: light.currentState });
+                light.history.push({ time: this.time, state: light.currentState });
+            }
+            if (light.crossState !== previousCross) {
+                this.signalLog.push({ time: this.time / this.STEPS_PER_SECOND, lightIndex: index, movement: 'cross-street', from: previousCross, to: light.crossState });
+            }
+            if (light.leftTurnState !== previousLeftTurn) {
+                this.signalLog.push({ time: this.time / this.STEPS_PER_SECOND, lightIndex: index, movement: 'left-turn', from: previousLeftTurn, to: light.leftTurnState });
+            }
+            while (light.history.length > 1 && light.history[1].time < this.time - this.TRAJECTORY_WINDOW) {
+                light.history.shift();
+            }
+            if (previousState === 'yellow' && light.currentState === 'all-red') {
+                this.markClearingCars(light);
+            }
+        });
+
+        // Drivers aim for their share of whatever limit is posted where they are
+        this.cars.forEach(car => {
+            car.desiredSpeed = this.MPH_TO_PIXELS_PER_STEP(this.speedLimitAt(car.x) * car.speedFactor);
+        });
+
+        this.cars.forEach(car => this.changeLanes(car));
+
+        // Update cars: every car picks its acceleration from the same snapshot, then all move
+        const stoppedSpeed = this.MPH_TO_PIXELS_PER_STEP(2);
+        const decisions = this.cars.map(car => this.carAcceleration(car));
+        this.cars.forEach((car, carIndex) => {
+            const { acceleration, stopLight } = decisions[carIndex];
+            const previousSpeed = car.speed;
+            car.speed = Math.max(0, car.speed + acceleration);
+            let nextX = car.x + (car.speed * car.direction);
+
+            // Never let the front of the car cross a line it has to stop at
+            if (stopLight) {
+                const frontLimit = this.stopLineX(stopLight, car.direction) - car.direction * this.carLength / 2;
+                if ((nextX - frontLimit) * car.direction > 0) {
+                    nextX = frontLimit;
+                    car.speed = 0;
+                }
+            }
+
+            // Never run into the car ahead
+            const leader = this.findLeader(car);
+            if (leader) {
+                const rearLimit = leader.x - car.direction * this.carLength;
+                if ((nextX - rearLimit) * car.direction > 0) {
+                    nextX = rearLimit;
+                    car.speed = Math.min(car.speed, leader.speed);
+                }
+            }
+
+            // Flag cars whose front crosses a stop line on red. All-red is the
+            // clearance interval and does not count.
+            for (const light of this.lights) {
+                const stopLine = this.stopLineX(light, car.direction);
+                const frontBefore = car.x + car.direction * this.carLength / 2;
+                const frontAfter = nextX + car.direction * this.carLength / 2;
+                const state = this.turningAt(car, light) ? light.leftTurnState : light.currentState;
+                if ((stopLine - frontBefore) * car.direction > 0 && (stopLine - frontAfter) * car.direction <= 0 && state === 'red') {
+                    car.ranRedLight = true;
+                }
+            }
+
+            car.x = nextX;
+            car.fuel += this.fuelForStep(previousSpeed, car.speed);
+
+            // Drift sideways towards the centre of the chosen lane
+            const targetY = this.laneY(car.direction, car.lane, car.inBay);
+            car.y += Math.max(-this.LANE_CHANGE_SPEED, Math.min(this.LANE_CHANGE_SPEED, targetY - car.y));
+
+            // Count a stop each time the car comes to a halt (with hysteresis so creeping doesn't recount)
+            if (!car.isStopped && car.speed < stoppedSpeed) {
+                car.stops += 1;
+                car.isStopped = true;
+                car.stopLog.push({ lightIndex: this.nextLightIndex(car), time: this.time / this.STEPS_PER_SECOND, duration: 0 });
+            } else if (car.isStopped && car.speed > stoppedSpeed * 2) {
+                car.isStopped = false;
+                this.closeStop(car);
+            }
+
+            // A car stopped at the line is held by the signal, and so is any
+            // car stopped or crawling behind one that is, even where the
+            // queue has spilled back past an earlier light. The hold lasts
+            // until the car is past that signal, so stop-and-go as the queue
+            // discharges still counts. The car ahead may be updated later in
+            // the same step, so this is checked on every step.
+            if (car.heldAt && this.pastStopLine(car, car.heldAt)) car.heldAt = null;
+            if (car.heldAt === null) {
+                if (stopLight && car.isStopped) {
+                    car.heldAt = stopLight;
+                } else if (leader?.heldAt && car.speed < stoppedSpeed * 2) {
+                    car.heldAt = leader.heldAt;
+                }
+            }
+            if (car.heldAt && car.isStopped) car.hitRedLight = true;
+        });
+
+        this.measureQueues();
+
+        if (this.time % this.TRAJECTORY_SAMPLE_INTERVAL === 0) {
+            this.sampleTrajectories();
+        }
+
+        // Remove cars that have gone off the road or turned off it, tallying their trips
+        this.cars = this.cars.filter(car => {
+            if (car.turnAt && car.inBay && (car.x - car.turnAt.x) * car.direction >= 0) {
+                recordTurn(this.stats, car.direction, car.ranRedLight, car.fuel);
+                this.logTrip(car, 'turned-left');
+                return false;
+            }
+            const onRoad = car.direction === 1 ? car.x <= this.width + 100 : car.x >= -100;
+            if (!onRoad) this.recordCompletedTrip(car);
+            return onRoad;
+        });
+
+        this.crossTraffic.step();
+    }
+
+    // Red always stops a car. All-red only stops cars that were not already
+    // committed to the intersection when the yellow ended.
+    // Drivers who chose to go on yellow stay committed through the red.
+    private mustStopFor(car: Car, light: TrafficLight): boolean {
+        const decision = car.yellowDecision?.light === light ? car.yellowDecision : null;
+        if (light.currentState === 'green') return false;
+        if (light.currentState === 'yellow') return decision !== null && !decision.go;
+        if (decision?.go) return false;
+        return !(light.currentState === 'all-red' && car.clearingLight === light);
+    }
+
+    // Left-turn arrows: stop on red, and on yellow whenever there is room to brake comfortably
+    private mustStopForArrow(car: Car, light: TrafficLight, distanceToLine: number): boolean {
+        if (light.leftTurnState === 'green') return false;
+        if (light.leftTurnState === 'red') return true;
+        const comfortableStop = (car.speed * car.speed) / (2 * this.idmParams(car).comfortableDeceleration);
+        return distanceToLine > comfortableStop;
+    }
+
+    // Make (once per yellow) the stop/go call for the light the car is approaching
+    private decideOnYellow(car: Car, light: TrafficLight, distanceToLine: number): void {
+        if (light.currentState !== 'yellow') {
+            // A fresh green means the next yellow needs a fresh decision
+            if (light.currentState === 'green' && car.yellowDecision?.light === light) car.yellowDecision = null;
+            return;
+        }
+        if (car.yellowDecision?.light === light) return;
+
+        const profile = car.aggressive ? this.driverModel.aggressive : this.driverModel.cautious;
+        const index = this.lights.indexOf(light);
+        const yellowSteps = (this.phasePlans[index] || DEFAULT_PHASE_PLAN).yellowTime * this.STEPS_PER_SECOND;
+        const go = decideToGo(
+            profile.reactionTime * this.STEPS_PER_SECOND,
+            this.MPH_TO_PIXELS_PER_STEP(profile.maxStopDeceleration) / this.STEPS_PER_SECOND,
+            profile.goIfReachable,
+            profile.redGrace * this.STEPS_PER_SECOND,
+            distanceToLine,
+            car.speed,
+            yellowSteps - light.timeInState
+        );
+        car.yellowDecision = { light, go };
+    }
+
+    private idmParams(car: Car): IdmParams {
+        return {
+            desiredSpeed: car.desiredSpeed,
+            maxAcceleration: this.MPH_TO_PIXELS_PER_STEP(this.driverModel.acceleration) / this.STEPS_PER_SECOND,
+            comfortableDeceleration: this.MPH_TO_PIXELS_PER_STEP(this.driverModel.deceleration) / this.STEPS_PER_SECOND,
+            headway: this.driverModel.headway * this.STEPS_PER_SECOND,
+            minGap: this.carLength * 0.2 // 20% of car length as buffer
+        };
+    }
+
+    // Cars share a lane when they are assigned to it or still physically overlap
+    // it part-way through a lane change
+    private sharesLane(car: Car, other: Car): boolean {
+        if (other.direction !== car.direction) return false;
+        if (other.lane === car.lane && other.inBay === car.inBay) return true;
+        return Math.abs(other.y - car.y) < this.LANE_WIDTH * 0.8;
+    }
+
+    // Nearest car ahead in the same direction and lane
+    private findLeader(car: Car): Car | null {
+        let leader: Car | null = null;
+        for (const other of this.cars) {
+            if (other === car || !this.sharesLane(car, other)) continue;
+            const ahead = (other.x - car.x) * car.direction;
+            if (ahead > 0 && (!leader || ahead < (leader.x - car.x) * car.direction)) {
+                leader = other;
+            }
+        }
+        return leader;
+    }
+
+    private stopLineX(light: TrafficLight, direction: 1 | -1): number {
+        return light.x - direction * 25;
+    }
+
+    private turningAt(car: Car, light: TrafficLight): boolean {
+        return car.inBay && car.turnAt === light;
+    }
+
+    // Move turning cars into their bay, and through cars around stopped or
+    // crawling vehicles. Cars finish one change before starting another.
+    private changeLanes(car: Car): void {
+        if (Math.abs(car.y - this.laneY(car.direction, car.lane, car.inBay)) > 1) return;
+        const front = car.x + car.direction * this.carLength / 2;
+
+        if (car.turnAt) {
+            if (car.inBay) return;
+            if (car.lane > 0) {
+                this.tryLaneChange(car, car.lane - 1, false);
+                return;
+            }
+            const distance = (this.stopLineX(car.turnAt, car.direction) - front) * car.direction;
+            if (distance < this.carLength) {
+                car.turnAt = null; // the bay was full all the way; carry straight on
+            } else if (distance <= this.BAY_LENGTH) {
+                this.tryLaneChange(car, 0, true);
+            }
+            return;
+        }
+
+        const leader = this.findLeader(car);
+        if (!leader) return;
+        const gap = Math.abs(leader.x - car.x) - this.carLength;
+        if (leader.speed > car.desiredSpeed * 0.5 || gap > this.carLength * 4) return;
+
+        // Pick the neighbouring lane with the most room ahead, if it beats staying put
+        let best: { lane: number; room: number } | null = null;
+        for (const lane of [car.lane - 1, car.lane + 1]) {
+            if (lane < 0 || lane >= this.lanesPerDirection) continue;
+            const room = this.roomAhead(car, lane, false);
+            if (room > gap + this.carLength && (!best || room > best.room)) best = { lane, room };
+        }
+        if (best) this.tryLaneChange(car, best.lane, false);
+    }
+
+    // Assigned to the lane, or still crossing over it
+    private occupiesLane(car: Car, lane: number, inBay: boolean): boolean {
+        if (car.lane === lane && car.inBay === inBay) return true;
+        return Math.abs(car.y - this.laneY(car.direction, lane, inBay)) < this.LANE_WIDTH * 0.8;
+    }
+
+    private carsInLane(car: Car, lane: number, inBay: boolean): Car[] {
+        return this.cars.filter(other =>
+            other !== car && other.direction === car.direction && this.occupiesLane(other, lane, inBay)
+        );
+    }
+
+    private roomAhead(car: Car, lane: number, inBay: boolean): number {
+        return this.carsInLane(car, lane, inBay)
+            .map(other => (other.x - car.x) * car.direction - this.carLength)
+            .filter(room => room >= -this.carLength)
+            .reduce((nearest, room) => Math.min(nearest, room), Infinity);
+    }
+
+    // Change only into a gap that leaves room in front and behind
+    private tryLaneChange(car: Car, lane: number, inBay: boolean): void {
+        const blocked = this.carsInLane(car, lane, inBay).some(other => {
+            const ahead = (other.x - car.x) * car.direction;
+            return ahead >= 0 ? ahead < this.carLength * 1.2 : -ahead < this.carLength * 1.5;
+        });
+        if (blocked) return;
+
+        car.lane = lane;
+        car.inBay = inBay;
+    }
+
+    // Nearest light ahead of the car's front that it is required to stop at.
+    // Only the very next light gets a yellow decision; drivers ignore
+    // yellows further down the road.
+    private nextStopLight(car: Car): TrafficLight | null {
+        const front = car.x + car.direction * this.carLength / 2;
+        const ahead = this.lights
+            .map(light => ({ light, distance: (this.stopLineX(light, car.direction) - front) * car.direction }))
+            .filter(entry => entry.distance >= 0)
+            .sort((a, b) => a.distance - b.distance);
+
+        // A turning car only cares about lights up to the one it turns at
+        const turnIndex = ahead.findIndex(entry => entry.light === car.turnAt);
+        if (turnIndex !== -1) ahead.splice(turnIndex + 1);
+
+        if (ahead.length > 0 && !this.turningAt(car, ahead[0].light)) this.decideOnYellow(car, ahead[0].light, ahead[0].distance);
+
+        const stop = ahead.find(entry => this.turningAt(car, entry.light)
+            ? this.mustStopForArrow(car, entry.light, entry.distance)
+            : this.mustStopFor(car, entry.light) || this.exitBlocked(car, entry.light, entry.distance));
+        return stop ? stop.light : null;
+    }
+
+    // IDM acceleration against whichever is closer: the car ahead or a stop line
+    private carAcceleration(car: Car): { acceleration: number; stopLight: TrafficLight | null } {
+        let gap = Infinity;
+        let approachRate = 0;
+
+        const leader = this.findLeader(car);
+        if (leader) {
+            gap = Math.abs(leader.x - car.x) - this.carLength;
+            approachRate = car.speed - leader.speed;
+        }
+
+        let stopLight = this.nextStopLight(car);
+        if (stopLight) {
+            const front = car.x + car.direction * this.carLength / 2;
+            const lineGap = (this.stopLineX(stopLight, car.direction) - front) * car.direction;
+            if (lineGap < gap) {
+                gap = lineGap;
+                approachRate = car.speed;
+            } else {
+                stopLight = null;
+            }
+        }
+
+        return { acceleration: idmAcceleration(this.idmParams(car), car.speed, gap, approachRate), stopLight };
+    }
+
+    // Don't block the box: a driver who can still stop comfortably waits at a
+    // green rather than pull into an intersection with no room beyond it
+    private exitBlocked(car: Car, light: TrafficLight, distanceToLine: number): boolean {
+        const comfortableStop = (car.speed * car.speed) / (2 * this.idmParams(car).comfortableDeceleration);
+        if (distanceToLine < comfortableStop) return false;
+
+        const stopLine = this.stopLineX(light, car.direction);
+        const farSide = light.x + car.direction * 25;
+        return this.cars.some(other => {
+            if (other === car || !other.isStopped || !this.sharesLane(car, other)) return false;
+            const rear = other.x - other.direction * this.carLength / 2;
+            return (rear - stopLine) * car.direction > 0 && (rear - farSide) * car.direction < this.carLength * 1.2;
+        });
+    }
+
+    // Queues are the stopped through cars lined up behind each stop line,
+    // lane by lane, and an approach's queue is its longest lane. A queue
+    // spills back once there is no room for another car before the
+    // intersection upstream.
+    private measureQueues(): void {
+        const spacing = this.carLength * 1.5; // gap beyond which the next stopped car is not part of the queue
+        this.lights.forEach(light => {
+            ([1, -1] as const).forEach(direction => {
+                const queue = light.queues[directionKey(direction)];
+                const stopLine = this.stopLineX(light, direction);
+                const upstream = this.lights
+                    .filter(other => (light.x - other.x) * direction > 0)
+                    .sort((a, b) => (b.x - a.x) * direction)[0];
+                const room = upstream ? (stopLine - (upstream.x + direction * 25)) * direction : Infinity;
+
+                queue.vehicles = 0;
+                queue.length = 0;
+                for (let lane = 0; lane < this.lanesPerDirection; lane++) {
+                    // Distance from the stop line back to the rear of each stopped car, nearest first
+                    const rears = this.cars
+                        .filter(car => car.direction === direction && car.isStopped && !car.inBay && car.lane === lane)
+                        .map(car => (stopLine - car.x) * direction + this.carLength / 2)
+                        .filter(distance => distance >= 0 && distance <= room + this.carLength)
+                        .sort((a, b) => a - b);
+
+                    let reach = 0;
+                    let vehicles = 0;
+                    for (const rear of rears) {
+                        if (rear - reach > spacing) break;
+                        reach = rear;
+                        vehicles++;
+                    }
+                    if (reach > queue.length) {
+                        queue.length = reach;
+                        queue.vehicles = vehicles;
+                    }
+                }
+
+                queue.maxVehicles = Math.max(queue.maxVehicles, queue.vehicles);
+                queue.spillback = queue.vehicles > 0 && room - queue.length < this.carLength;
+                if (queue.spillback) queue.lastSpillback = this.time;
+            });
+
+            // Cars waiting at a stop line sit just clear of the intersection
+            light.boxBlocked = this.cars.some(car =>
+                car.isStopped && Math.abs(car.x - light.x) < 25 + this.carLength / 2 - 1
+            );
+            if (light.boxBlocked) light.lastBoxBlocked = this.time;
+        });
+    }
+
+    private markClearingCars(light: TrafficLight): void {
+        const followingDistance = this.carLength * 1.2;
+        for (const car of this.cars) {
+            if (car.isStopped) continue;
+
+            const front = car.x + car.direction * this.carLength / 2;
+            const stopLine = light.x - car.direction * 25;
+            const distanceToLine = (stopLine - front) * car.direction;
+            if (distanceToLine >= 0 && distanceToLine <= followingDistance) {
+                car.clearingLight = light;
+            }
+        }
+    }
+
+    private sampleTrajectories(): void {
+        for (const car of this.cars) {
+            let trajectory = this.trajectories.get(car.id);
+            if (!trajectory) {
+                trajectory = { carId: car.id, direction: car.direction, hitRedLight: false, points: [] };
+                this.trajectories.set(car.id, trajectory);
+            }
+            trajectory.hitRedLight = car.hitRedLight;
+            trajectory.points.push({ time: this.time, x: car.x });
+        }
+
+        // Drop history that has scrolled out of the window
+        const cutoff = this.time - this.TRAJECTORY_WINDOW;
+        for (const [id, trajectory] of this.trajectories) {
+            while (trajectory.points.length > 0 && trajectory.points[0].time < cutoff) {
+                trajectory.points.shift();
+            }
+            if (trajectory.points.length === 0) this.trajectories.delete(id);
+        }
+    }
+
+    private pastStopLine(car: Car, light: TrafficLight): boolean {
+        const front = car.x + car.direction * this.carLength / 2;
+        return (this.stopLineX(light, car.direction) - front) * car.direction < -1;
+    }
+
+    // Index of the first light whose stop line is still ahead of the car
+    private nextLightIndex(car: Car): number | null {
+        const front = car.x + car.direction * this.carLength / 2;
+        let best: number | null = null;
+        let bestDistance = Infinity;
+        this.lights.forEach((light, index) => {
+            const distance = (this.stopLineX(light, car.direction) - front) * car.direction;
+            if (distance >= -1 && distance < bestDistance) {
+                best = index;
+                bestDistance = distance;
+            }
+        });
+        return best;
+    }
+
+    private closeStop(car: Car): void {
+        const stop = car.stopLog[car.stopLog.length - 1];
+        if (stop) stop.duration = this.time / this.STEPS_PER_SECOND - stop.time;
+    }
+
+    private logTrip(car: Car, exit: TripLogEntry['exit']): void {
+        if (car.isStopped) this.closeStop(car);
+        this.tripLog.push({
+            carId: car.id,
+            direction: directionKey(car.direction),
+            arrivalTime: car.spawnTime / this.STEPS_PER_SECOND,
+            entryTime: car.enteredAt / this.STEPS_PER_SECOND,
+            exitTime: this.time / this.STEPS_PER_SECOND,
+            exit,
+            stops: car.stopLog,
+            hitRedLight: car.hitRedLight,
+            ranRedLight: car.ranRedLight,
+            fuel: car.fuel
+        });
+    }
+
+    private recordCompletedTrip(car: Car): void {
+        this.logTrip(car, 'completed');
+        const freeFlowTime = this.simTravelTimeSeconds(car.spawnX, car.x) / car.speedFactor;
+        recordTrip(this.stats, {
+            direction: car.direction,
+            hitRedLight: car.hitRedLight,
+            ranRedLight: car.ranRedLight,
+            stops: car.stops,
+            travelTime: (this.time - car.spawnTime) / this.STEPS_PER_SECOND,
+            freeFlowTime,
+            fuel: car.fuel
+        });
+    }
+}
@@ -0,0 +1,95 @@
+import { CO2_GRAMS_PER_ML } from './emissions';
+
+// Per-direction tallies of cars that have completed the corridor
+
+export interface DirectionStats {
+    completed: number;
+    greenWave: number; // completed without stopping once
+    redLightRunners: number; // crossed at least one stop line on red
+    totalStops: number;
+    totalDelay: number; // simulation seconds beyond free-flow travel time
+    turnedLeft: number; // left the corridor at a left-turn bay
+    totalFuel: number; // millilitres, every car that has left including turns
+}
+
+export interface CorridorStats {
+    eastbound: DirectionStats;
+    westbound: DirectionStats;
+}
+
+export interface DirectionSummary {
+    completed: number;
+    greenWaveRate: number; // 0..1
+    averageDelay: number; // simulation seconds
+    stopsPerCar: number;
+    redLightRunners: number;
+    turnedLeft: number;
+    fuelPerCar: number; // millilitres
+    co2PerCar: number; // grams
+    totalFuel: number; // millilitres
+    totalCo2: number; // grams
+}
+
+export interface CompletedTrip {
+    direction: 1 | -1;
+    hitRedLight: boolean;
+    ranRedLight: boolean;
+    stops: number;
+    travelTime: number; // simulation seconds
+    freeFlowTime: number; // simulation seconds
+    fuel: number; // millilitres
+}
+
+export function createDirectionStats(): DirectionStats {
+    return { completed: 0, greenWave: 0, redLightRunners: 0, totalStops: 0, totalDelay: 0, turnedLeft: 0, totalFuel: 0 };
+}
+
+export function createStats(): CorridorStats {
+    return {
+        eastbound: createDirectionStats(),
+        westbound: createDirectionStats()
+    };
+}
+
+export function recordTrip(stats: CorridorStats, trip: CompletedTrip): void {
+    recordDirectionTrip(trip.direction === 1 ? stats.eastbound : stats.westbound, trip);
+}
+
+export function recordDirectionTrip(bucket: DirectionStats, trip: Omit<CompletedTrip, 'direction'>): void {
+    bucket.completed += 1;
+    if (trip.stops === 0) bucket.greenWave += 1;
+    if (trip.ranRedLight) bucket.redLightRunners += 1;
+    bucket.totalStops += trip.stops;
+    bucket.totalDelay += Math.max(0, trip.travelTime - trip.freeFlowTime);
+    bucket.totalFuel += trip.fuel;
+}
+
+// Turning vehicles leave mid-corridor, so they count separately from completed trips
+export function recordTurn(stats: CorridorStats, direction: 1 | -1, ranRedLight: boolean, fuel: number): void {
+    const bucket = direction === 1 ? stats.eastbound : stats.westbound;
+    bucket.turnedLeft += 1;
+    if (ranRedLight) bucket.redLightRunners += 1;
+    bucket.totalFuel += fuel;
+}
+
+export function summarize(stats: DirectionStats): DirectionSummary {
+    const vehicles = stats.completed + stats.turnedLeft;
+    const fuel = {
+        fuelPerCar: vehicles > 0 ? stats.totalFuel / vehicles : 0,
+        co2PerCar: vehicles > 0 ? (stats.totalFuel * CO2_GRAMS_PER_ML) / vehicles : 0,
+        totalFuel: stats.totalFuel,
+        totalCo2: stats.totalFuel * CO2_GRAMS_PER_ML
+    };
+    if (stats.completed === 0) {
+        return { completed: 0, greenWaveRate: 0, averageDelay: 0, stopsPerCar: 0, redLightRunners: stats.redLightRunners, turnedLeft: stats.turnedLeft, ...fuel };
+    }
+    return {
+        completed: stats.completed,
+        greenWaveRate: stats.greenWave / stats.completed,
+        averageDelay: stats.totalDelay / stats.completed,
+        stopsPerCar: stats.totalStops / stats.completed,
+        redLightRunners: stats.redLightRunners,
+        turnedLeft: stats.turnedLeft,
+        ...fuel
+    };
+}
@@ -0,0 +1,113 @@
+import { SimulationEngine } from './simulation';
+import { LightState } from './signals';
+
+// Time-space diagram: time runs left to right, distance along the road runs
+// bottom (west) to top (east). Each light is a horizontal band coloured by its
+// state over time, and each car is a slanted line through its sampled positions.
+export class TimeSpaceDiagram {
+    private canvas: HTMLCanvasElement;
+    private ctx: CanvasRenderingContext2D;
+    private sim: SimulationEngine;
+
+    private readonly MARGIN_LEFT = 60;
+    private readonly MARGIN_RIGHT = 20;
+    private readonly MARGIN_TOP = 20;
+    private readonly MARGIN_BOTTOM = 30;
+
+    private readonly stateColors: Record<LightState, string> = {
+        red: '#ff4444',
+        yellow: '#ffff44',
+        green: '#44ff44',
+        'all-red': '#aa2222'
+    };
+
+    constructor(canvas: HTMLCanvasElement, sim: SimulationEngine) {
+        this.canvas = canvas;
+        this.ctx = canvas.getContext('2d')!;
+        this.sim = sim;
+    }
+
+    draw(): void {
+        const ctx = this.ctx;
+        const plotWidth = this.canvas.width - this.MARGIN_LEFT - this.MARGIN_RIGHT;
+        const plotHeight = this.canvas.height - this.MARGIN_TOP - this.MARGIN_BOTTOM;
+
+        // The window always ends at the current time
+        const windowSteps = this.sim.TRAJECTORY_WINDOW;
+        const startTime = this.sim.time - windowSteps;
+
+        const timeToPx = (time: number) => this.MARGIN_LEFT + ((time - startTime) / windowSteps) * plotWidth;
+        const roadToPy = (x: number) => this.MARGIN_TOP + plotHeight - (x / this.sim.width) * plotHeight;
+
+        ctx.fillStyle = '#222';
+        ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+
+        // Signal bands, drawn as runs of constant state from time zero onwards
+        const firstPx = Math.max(0, Math.ceil(timeToPx(0) - this.MARGIN_LEFT));
+        this.sim.lights.forEach((light, index) => {
+            const y = roadToPy(light.x);
+            let runStart = firstPx;
+            let runState = this.sim.pastLightState(startTime + (firstPx / plotWidth) * windowSteps, index);
+
+            for (let px = firstPx + 1; px <= plotWidth; px++) {
+                const time = startTime + (px / plotWidth) * windowSteps;
+                const state = px === plotWidth ? null : this.sim.pastLightState(time, index);
+                if (state !== runState) {
+                    ctx.fillStyle = this.stateColors[runState];
+                    ctx.fillRect(this.MARGIN_LEFT + runStart, y - 3, px - runStart, 6);
+                    runStart = px;
+                    if (state) runState = state;
+                }
+            }
+
+            ctx.fillStyle = '#fff';
+            ctx.font = '12px Arial';
+            ctx.textAlign = 'right';
+            ctx.fillText(`Light ${index + 1}`, this.MARGIN_LEFT - 8, y + 4);
+        });
+
+        // Vehicle trajectories
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(this.MARGIN_LEFT, this.MARGIN_TOP, plotWidth, plotHeight);
+        ctx.clip();
+        ctx.lineWidth = 1.5;
+        for (const trajectory of this.sim.trajectories.values()) {
+            if (trajectory.points.length < 2) continue;
+
+            if (trajectory.hitRedLight) {
+                ctx.strokeStyle = '#ff8888';
+            } else {
+                ctx.strokeStyle = trajectory.direction === 1 ? '#4444ff' : '#ff44ff';
+            }
+            ctx.beginPath();
+            trajectory.points.forEach((point, i) => {
+                const px = timeToPx(point.time);
+                const py = roadToPy(point.x);
+                if (i === 0) ctx.moveTo(px, py);
+                else ctx.lineTo(px, py);
+            });
+            ctx.stroke();
+        }
+        ctx.restore();
+
+        // Axes
+        ctx.strokeStyle = '#888';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(this.MARGIN_LEFT, this.MARGIN_TOP);
+        ctx.lineTo(this.MARGIN_LEFT, this.MARGIN_TOP + plotHeight);
+        ctx.lineTo(this.MARGIN_LEFT + plotWidth, this.MARGIN_TOP + plotHeight);
+        ctx.stroke();
+
+        // Time ticks every 10 simulation seconds
+        ctx.fillStyle = '#aaa';
+        ctx.font = '11px Arial';
+        ctx.textAlign = 'center';
+        const tickSteps = 10 * this.sim.STEPS_PER_SECOND;
+        const firstTick = Math.ceil(Math.max(0, startTime) / tickSteps) * tickSteps;
+        for (let time = firstTick; time <= this.sim.time; time += tickSteps) {
+            ctx.fillText(`${time / this.sim.STEPS_PER_SECOND}s`, timeToPx(time), this.MARGIN_TOP + plotHeight + 16);
+        }
+    }
+}
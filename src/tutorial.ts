@@ -0,0 +1,254 @@
+import { DEFAULT_CONFIG, DEFAULT_CROSS_VOLUME, DirectionKey, MAX_LIGHTS, MIN_LIGHTS, SimulationConfig } from './simulation';
+import { DEFAULT_PHASE_PLAN, validatePhasePlan } from './signals';
+import { DEFAULT_DRIVER_MODEL } from './driverModel';
+import { isNumberArray } from './scenario';
+
+// Guided tours: a script of steps, each of which changes some settings,
+// restarts the run, lets it play for a while and explains what to look for.
+// Scripts are JSON; lights are numbered from 1 as on screen.
+//
+//     { "title": "...", "steps": [
+//         { "caption": "...", "lightOffsets": [0, 4.2, 12], "runSeconds": 30,
+//           "highlight": { "lights": [2], "directions": ["eastbound"] } } ] }
+
+export interface TutorialHighlight {
+    lights?: number[]; // light numbers, from 1
+    cars?: number[]; // car ids; runs are seeded, so the same ids come back every time
+    directions?: DirectionKey[]; // every car travelling this way
+}
+
+// Settings a step leaves out carry over from the step before
+export interface TutorialStep {
+    caption: string;
+    speedLimit?: number; // mph
+    lightPositions?: number[]; // percentage along the road
+    lightOffsets?: number[]; // seconds
+    lightCycleTimes?: number[]; // seconds
+    volumes?: Partial<Record<DirectionKey, number>>; // vehicles per hour
+    runSeconds: number; // simulated seconds to play before pausing
+    highlight?: TutorialHighlight;
+}
+
+export interface TutorialScript {
+    title: string;
+    steps: TutorialStep[];
+}
+
+// Tours start from the default corridor with every driver at exactly the
+// limit, which is the situation the myth describes
+export function tutorialStartConfig(): SimulationConfig {
+    return {
+        ...DEFAULT_CONFIG,
+        driverModel: { ...DEFAULT_DRIVER_MODEL, distribution: 'none', aggressiveShare: 0 }
+    };
+}
+
+// Validate an untrusted script (e.g. a loaded JSON file)
+export function parseTutorialScript(data: unknown): TutorialScript {
+    if (typeof data !== 'object' || data === null) {
+        throw new Error('Tutorial script must be a JSON object');
+    }
+    const raw = data as Record<string, unknown>;
+    if (!Array.isArray(raw.steps) || raw.steps.length === 0) {
+        throw new Error('Tutorial script has no steps');
+    }
+
+    const steps = raw.steps.map((value: unknown, index): TutorialStep => {
+        const where = `Step ${index + 1}`;
+        if (typeof value !== 'object' || value === null) throw new Error(`${where} must be an object`);
+        const step = value as Record<string, unknown>;
+
+        const { caption, runSeconds, speedLimit, volumes, highlight } = step;
+        if (typeof caption !== 'string') throw new Error(`${where} needs a caption`);
+        if (typeof runSeconds !== 'number' || !(runSeconds >= 0)) {
+            throw new Error(`${where}: runSeconds must be zero or more`);
+        }
+        const parsed: TutorialStep = { caption, runSeconds };
+
+        if (speedLimit !== undefined) {
+            if (!(typeof speedLimit === 'number' && speedLimit > 0)) throw new Error(`${where}: speedLimit must be a positive number`);
+            parsed.speedLimit = speedLimit;
+        }
+        for (const key of ['lightPositions', 'lightOffsets', 'lightCycleTimes'] as const) {
+            const list = step[key];
+            if (list === undefined) continue;
+            if (!isNumberArray(list)) throw new Error(`${where}: ${key} must be an array of numbers`);
+            parsed[key] = list;
+        }
+        if (volumes !== undefined) parsed.volumes = parseVolumes(volumes, where);
+        if (highlight !== undefined) parsed.highlight = parseHighlight(highlight, where);
+        return parsed;
+    });
+
+    const script = { title: typeof raw.title === 'string' ? raw.title : 'Guided tour', steps };
+    tutorialConfigs(script); // throws if a step leaves the corridor in an impossible state
+    return script;
+}
+
+function parseVolumes(value: unknown, where: string): Partial<Record<DirectionKey, number>> {
+    const fail = () => new Error(`${where}: volumes must be non-negative eastbound and westbound numbers`);
+    if (typeof value !== 'object' || value === null) throw fail();
+    const volumes: Partial<Record<DirectionKey, number>> = {};
+    for (const [key, volume] of Object.entries(value)) {
+        if (!isDirectionKey(key) || typeof volume !== 'number' || !(volume >= 0)) throw fail();
+        volumes[key] = volume;
+    }
+    return volumes;
+}
+
+function parseHighlight(value: unknown, where: string): TutorialHighlight {
+    const fail = () => new Error(`${where}: highlight takes lists of light numbers, car ids and directions`);
+    if (typeof value !== 'object' || value === null) throw fail();
+    const { lights, cars, directions } = value as Record<string, unknown>;
+    const highlight: TutorialHighlight = {};
+
+    if (lights !== undefined) {
+        if (!isNumberArray(lights)) throw fail();
+        highlight.lights = lights;
+    }
+    if (cars !== undefined) {
+        if (!isNumberArray(cars)) throw fail();
+        highlight.cars = cars;
+    }
+    if (directions !== undefined) {
+        if (!Array.isArray(directions) || !directions.every(isDirectionKey)) throw fail();
+        highlight.directions = directions;
+    }
+    return highlight;
+}
+
+function isDirectionKey(value: unknown): value is DirectionKey {
+    return value === 'eastbound' || value === 'westbound';
+}
+
+export function tutorialFromJson(json: string): TutorialScript {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('Tutorial script is not valid JSON');
+    }
+    return parseTutorialScript(data);
+}
+
+// The configuration a step runs with. Changing the number of lights needs
+// offsets and cycles for all of them; other per-light settings start from
+// their defaults.
+export function applyTutorialStep(config: SimulationConfig, step: TutorialStep): SimulationConfig {
+    const positions = step.lightPositions ?? config.lightPositions;
+    const count = positions.length;
+    const resized = count !== config.lightPositions.length;
+    if (count < MIN_LIGHTS || count > MAX_LIGHTS) {
+        throw new Error(`A step needs between ${MIN_LIGHTS} and ${MAX_LIGHTS} lights`);
+    }
+    if (resized && (!step.lightOffsets || !step.lightCycleTimes)) {
+        throw new Error('A step that changes the number of lights must give their offsets and cycles');
+    }
+
+    const offsets = step.lightOffsets ?? config.lightOffsets;
+    const cycleTimes = step.lightCycleTimes ?? config.lightCycleTimes;
+    if (offsets.length !== count || cycleTimes.length !== count) {
+        throw new Error('Every light needs an offset and a cycle time');
+    }
+    if (positions.some(position => position < 0 || position > 100)) {
+        throw new Error('Light positions must be between 0 and 100');
+    }
+    if (positions.some((position, index) => index > 0 && position < positions[index - 1])) {
+        throw new Error('Light positions must run west to east');
+    }
+
+    const phasePlans = resized ? positions.map(() => ({ ...DEFAULT_PHASE_PLAN })) : config.phasePlans;
+    phasePlans.forEach((plan, index) => {
+        const error = validatePhasePlan(plan, cycleTimes[index]);
+        if (error) throw new Error(`Light ${index + 1}: ${error}`);
+    });
+
+    return {
+        ...config,
+        speedLimit: step.speedLimit ?? config.speedLimit,
+        speedZones: step.lightPositions ? [] : config.speedZones,
+        lightPositions: [...positions],
+        lightOffsets: [...offsets],
+        lightCycleTimes: [...cycleTimes],
+        phasePlans: phasePlans.map(plan => ({ ...plan })),
+        crossVolumes: resized ? positions.map(() => DEFAULT_CROSS_VOLUME) : [...config.crossVolumes],
+        controllerTypes: resized ? positions.map(() => 'fixed') : [...config.controllerTypes],
+        demand: {
+            ...config.demand,
+            eastboundVolume: step.volumes?.eastbound ?? config.demand.eastboundVolume,
+            westboundVolume: step.volumes?.westbound ?? config.demand.westboundVolume
+        }
+    };
+}
+
+// The configuration for every step in turn, each building on the one before
+export function tutorialConfigs(script: TutorialScript): SimulationConfig[] {
+    const configs: SimulationConfig[] = [];
+    script.steps.reduce((config, step, index) => {
+        try {
+            const next = applyTutorialStep(config, step);
+            configs.push(next);
+            return next;
+        } catch (error) {
+            throw new Error(`Step ${index + 1}: ${(error as Error).message}`);
+        }
+    }, tutorialStartConfig());
+    return configs;
+}
+
+// Travel times at 60 mph on the default 3-mile corridor: Light 1 to Light 2
+// (35%) takes 4.2 s of simulated time, Light 1 to Light 3 takes 12 s.
+export const GREEN_WAVE_TUTORIAL: TutorialScript = {
+    title: 'Why both directions can\'t ride a green wave',
+    steps: [
+        {
+            caption: 'A 3-mile road with three signals and a 60 mph limit. Every driver here holds exactly 60 mph. ' +
+                'To start with, all three lights turn green at the same moment, and only eastbound cars are driving.',
+            lightPositions: [0, 35, 100],
+            lightOffsets: [0, 0, 0],
+            lightCycleTimes: [30, 30, 30],
+            volumes: { eastbound: 1200, westbound: 0 },
+            runSeconds: 40,
+            highlight: { lights: [1, 2, 3] }
+        },
+        {
+            caption: 'Light 2 is 4.2 s of driving past Light 1 and Light 3 is 12 s past it. Delay each light\'s green ' +
+                'by exactly that travel time (offsets 0, 4.2 and 12 s) and any eastbound car that gets through Light 1 ' +
+                'meets the other two on green. Average delay drops by about two thirds.',
+            lightOffsets: [0, 4.2, 12],
+            runSeconds: 45,
+            highlight: { directions: ['eastbound'] }
+        },
+        {
+            caption: 'Now send westbound traffic down the same road without touching the signals. Westbound drivers meet ' +
+                'Light 3 first, and they reach Light 2 7.8 s later, but Light 2 went green 7.8 s before Light 3 did.',
+            volumes: { westbound: 1200 },
+            runSeconds: 60,
+            highlight: { directions: ['westbound'], lights: [2, 3] }
+        },
+        {
+            caption: 'That is the catch. Eastbound needs Light 2 to go green 7.8 s before Light 3; westbound needs it ' +
+                '7.8 s after. Both can only be true when 2 × 7.8 s is a whole number of cycles, and with a 30 s cycle it is not.',
+            runSeconds: 30,
+            highlight: { lights: [2, 3] }
+        },
+        {
+            caption: 'It does work in one special case: lights evenly spaced 6 s apart with a 12 s cycle, because going ' +
+                '6 s forward or 6 s back lands on the same point of the cycle. Real roads can\'t pick their spacing, ' +
+                'and a cycle that short leaves the side streets no green at all.',
+            lightPositions: [0, 50, 100],
+            lightOffsets: [0, 6, 0],
+            lightCycleTimes: [12, 12, 12],
+            runSeconds: 60,
+            highlight: { directions: ['eastbound', 'westbound'] }
+        },
+        {
+            caption: 'On a real corridor engineers trade one direction off against the other, usually favouring the heavier ' +
+                'flow at each time of day. Exit the tour and try "Optimize Offsets For" to find the best compromise.',
+            lightPositions: [0, 35, 100],
+            lightOffsets: [0, 4.2, 12],
+            lightCycleTimes: [30, 30, 30],
+            runSeconds: 60
+        }
+    ]
+};